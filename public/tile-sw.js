@@ -0,0 +1,317 @@
+/* Service worker that keeps map tiles available offline.
+ *
+ * Tiles are fetched network-first and written through to a cache. When the
+ * network fails or is too slow, the cached copy is served instead. Tile sizes
+ * and last-access times live in IndexedDB so the cache can be held under a
+ * byte quota by evicting the least recently used tiles.
+ *
+ * Only requests to the hosts listed in the script URL (`?hosts=a,b`) are
+ * treated as tiles, so other `/n/n/n` requests never reach the cache.
+ */
+
+const TILE_CACHE = "map-tiles-v1";
+const DB_NAME = "tile-cache";
+const DB_VERSION = 2;
+const DEFAULT_QUOTA_BYTES = 100 * 1024 * 1024;
+const NETWORK_TIMEOUT = 4000;
+const TILE_HOSTS = new Set(
+  (new URL(self.location.href).searchParams.get("hosts") ?? "")
+    .split(",")
+    .filter(Boolean)
+);
+const TILE_PATH = /\/\d+\/\d+\/\d+(@2x)?(\.(png|jpe?g|webp))?$/i;
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+/** Sums tile sizes so the running total starts right after an upgrade. */
+const initTotalBytes = (transaction) => {
+  let total = 0;
+  const request = transaction.objectStore("tiles").openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (cursor) {
+      total += cursor.value.size;
+      cursor.continue();
+    } else {
+      transaction.objectStore("settings").put(total, "totalBytes");
+    }
+  };
+};
+
+let dbPromise = null;
+
+/** One connection for the worker's lifetime; reopened if it is closed. */
+const getDb = () => {
+  if (dbPromise) {
+    return dbPromise;
+  }
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        const tiles = db.createObjectStore("tiles", { keyPath: "url" });
+        tiles.createIndex("lastAccess", "lastAccess");
+        db.createObjectStore("settings");
+      }
+      // Version 2 keeps a running byte total instead of summing every tile.
+      initTotalBytes(request.transaction);
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      db.onclose = () => {
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+/** Runs `callback` in one transaction and resolves with its return value. */
+const runTransaction = async (storeNames, mode, callback) => {
+  const db = await getDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeNames, mode);
+    const stores = Object.fromEntries(
+      [storeNames].flat().map((name) => [name, transaction.objectStore(name)])
+    );
+    let result;
+    Promise.resolve(callback(stores)).then((value) => {
+      result = value;
+    }, reject);
+    transaction.oncomplete = () => resolve(result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const requestResult = (request) =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/** Records a tile's size and access time, adjusting the byte total. */
+const touchTile = (url, size) =>
+  runTransaction(["tiles", "settings"], "readwrite", async (stores) => {
+    const [entry, total] = await Promise.all([
+      requestResult(stores.tiles.get(url)),
+      requestResult(stores.settings.get("totalBytes")),
+    ]);
+    const nextSize = size ?? entry?.size;
+    if (nextSize === undefined) {
+      return;
+    }
+
+    stores.tiles.put({ url, size: nextSize, lastAccess: Date.now() });
+    stores.settings.put(
+      (total ?? 0) + nextSize - (entry?.size ?? 0),
+      "totalBytes"
+    );
+  });
+
+const getStats = () =>
+  runTransaction(["tiles", "settings"], "readonly", async (stores) => {
+    const [count, bytes, quotaBytes] = await Promise.all([
+      requestResult(stores.tiles.count()),
+      requestResult(stores.settings.get("totalBytes")),
+      requestResult(stores.settings.get("quotaBytes")),
+    ]);
+    return {
+      count,
+      bytes: bytes ?? 0,
+      quotaBytes: quotaBytes ?? DEFAULT_QUOTA_BYTES,
+    };
+  });
+
+/**
+ * Deletes least recently used tiles until the total fits the quota. Reads
+ * and deletions share one transaction, so the total cannot go stale.
+ */
+const evictOverQuota = async () => {
+  const evicted = await runTransaction(
+    ["tiles", "settings"],
+    "readwrite",
+    async (stores) => {
+      const [stored, quota] = await Promise.all([
+        requestResult(stores.settings.get("totalBytes")),
+        requestResult(stores.settings.get("quotaBytes")),
+      ]);
+      const limit = quota ?? DEFAULT_QUOTA_BYTES;
+      let total = stored ?? 0;
+      if (total <= limit) {
+        return [];
+      }
+
+      return new Promise((resolve, reject) => {
+        const urls = [];
+        const request = stores.tiles.index("lastAccess").openCursor();
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (cursor && total > limit) {
+            total -= cursor.value.size;
+            urls.push(cursor.value.url);
+            cursor.delete();
+            cursor.continue();
+            return;
+          }
+          stores.settings.put(Math.max(total, 0), "totalBytes");
+          resolve(urls);
+        };
+        request.onerror = () => reject(request.error);
+      });
+    }
+  );
+
+  if (evicted.length > 0) {
+    const cache = await caches.open(TILE_CACHE);
+    await Promise.all(evicted.map((url) => cache.delete(url)));
+  }
+};
+
+let eviction = null;
+let evictionPending = false;
+
+/**
+ * Coalesces eviction requests: bursts of stored tiles (map panning, area
+ * downloads) trigger at most one run in progress plus one queued after it.
+ */
+const scheduleEviction = () => {
+  if (eviction) {
+    evictionPending = true;
+    return eviction;
+  }
+
+  eviction = evictOverQuota()
+    .catch(() => undefined)
+    .finally(() => {
+      eviction = null;
+      if (evictionPending) {
+        evictionPending = false;
+        scheduleEviction();
+      }
+    });
+  return eviction;
+};
+
+const storeTile = async (url, response) => {
+  const blob = await response.blob();
+  const cache = await caches.open(TILE_CACHE);
+  await cache.put(
+    url,
+    new Response(blob, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    })
+  );
+  await touchTile(url, blob.size);
+  await scheduleEviction();
+};
+
+const fetchWithTimeout = (request) =>
+  new Promise((resolve, reject) => {
+    const timerId = setTimeout(
+      () => reject(new Error("Tile request timed out")),
+      NETWORK_TIMEOUT
+    );
+    fetch(request).then(
+      (response) => {
+        clearTimeout(timerId);
+        resolve(response);
+      },
+      (error) => {
+        clearTimeout(timerId);
+        reject(error);
+      }
+    );
+  });
+
+const handleTileRequest = async (event) => {
+  const url = event.request.url;
+  // Re-issue as CORS so the response body (and its size) is readable.
+  const networkRequest = new Request(url, {
+    mode: "cors",
+    credentials: "omit",
+  });
+
+  try {
+    const response = await fetchWithTimeout(networkRequest);
+    if (response.ok) {
+      event.waitUntil(storeTile(url, response.clone()).catch(() => undefined));
+      return response;
+    }
+    throw new Error(`Tile request failed with ${response.status}`);
+  } catch (error) {
+    const cache = await caches.open(TILE_CACHE);
+    const cached = await cache.match(url);
+    if (cached) {
+      event.waitUntil(touchTile(url).catch(() => undefined));
+      return cached;
+    }
+    // Tile servers without CORS headers still work, just without caching.
+    return fetch(event.request);
+  }
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (
+    request.method !== "GET" ||
+    !TILE_HOSTS.has(url.host) ||
+    !TILE_PATH.test(url.pathname)
+  ) {
+    return;
+  }
+
+  event.respondWith(handleTileRequest(event));
+});
+
+const handleMessage = async (data) => {
+  switch (data?.type) {
+    case "stats":
+      return getStats();
+    case "set-quota":
+      await runTransaction("settings", "readwrite", (stores) => {
+        stores.settings.put(data.quotaBytes, "quotaBytes");
+      });
+      await scheduleEviction();
+      return getStats();
+    case "clear":
+      await caches.delete(TILE_CACHE);
+      await runTransaction(["tiles", "settings"], "readwrite", (stores) => {
+        stores.tiles.clear();
+        stores.settings.put(0, "totalBytes");
+      });
+      return getStats();
+    default:
+      throw new Error(`Unknown tile cache message: ${data?.type}`);
+  }
+};
+
+self.addEventListener("message", (event) => {
+  const [port] = event.ports;
+  event.waitUntil(
+    handleMessage(event.data).then(
+      (result) => port?.postMessage({ ok: true, result }),
+      (error) => port?.postMessage({ ok: false, error: String(error) })
+    )
+  );
+});
@@ -1,6 +1,7 @@
 import {
   useCallback,
   useEffect,
+  useMemo,
   useRef,
   useState,
   type ChangeEvent,
@@ -9,84 +10,243 @@ import L from "leaflet";
 import "leaflet/dist/leaflet.css";
 import "./App.css";
 
-import { init, locationManager } from "@telegram-apps/sdk";
+import { init } from "@telegram-apps/sdk";
+import {
+  DEFAULT_GEOFENCES,
+  getGeofenceAnchor,
+  type Geofence,
+  type GeofenceState,
+} from "./geofences";
+import {
+  createGeofenceLayers,
+  setGeofenceQuestState,
+  type GeofenceLayers,
+} from "./geofenceLayers";
+import {
+  createGeofenceEngine,
+  type GeofenceEvent,
+  type GeofenceEventType,
+} from "./geofenceEngine";
+import type { CheckInResult } from "./checkIn";
+import { parseCheckpointFile, type ImportIssue } from "./checkpointImport";
+import {
+  COORDINATE_DISPLAY_FORMATS,
+  COORDINATE_FORMAT_LABELS,
+  formatCoordinates,
+  type CoordinateDisplayFormat,
+} from "./coordinates/formats";
+import {
+  parseCoordinates,
+  type CoordinateParseResult,
+} from "./coordinates/parseCoordinates";
+import {
+  buildShareLink,
+  readLaunchDeepLink,
+  shareLink,
+  type DeepLinkState,
+} from "./deepLink";
+import { downloadTextFile } from "./files";
+import { toDayString } from "./history";
+import { isValidLatitude, isValidLongitude } from "./geo";
+import { openMapMenu } from "./mapMenu";
+import {
+  createSpeedEstimator,
+  formatDistance,
+  getCompassPoint,
+  getNavigationInfo,
+  pickNavigationTarget,
+} from "./navigation";
+import {
+  createFixFilter,
+  DEFAULT_FIX_FILTER_OPTIONS,
+  type FixFilter,
+  type FixSmoothing,
+} from "./location/fixFilter";
+import { createAdaptivePolling } from "./location/adaptivePolling";
+import { createCompass, type CompassSource } from "./location/compass";
+import {
+  createProvidersForMode,
+  startFirstAvailableProvider,
+  type LocationSourceMode,
+} from "./location/startProviders";
+import { createSimulatedProvider } from "./location/simulatedProvider";
+import type {
+  LocationFix,
+  LocationProvider,
+  LocationSourceId,
+} from "./location/types";
+import { LOCATION_PRESETS, type LocationPreset } from "./presets";
+import type { RoutePlayerFix } from "./routePlayer";
+import { QUEST_UNLOCK_RULE_LABELS, type QuestUnlockRule } from "./quest";
+import { isPeerStale } from "./sharing/peers";
+import type { PeerState } from "./sharing/types";
+import {
+  SHARING_STATUS_LABELS,
+  useLiveSharing,
+} from "./sharing/useLiveSharing";
+import { createAppStore, type AppStore } from "./storage/appStore";
+import { MAX_PREFETCH_TILES, isTileCacheSupported } from "./tileCache";
+import {
+  getTileSources,
+  loadTileSelection,
+  saveTileSelection,
+  type TileSelection,
+  type TileSource,
+} from "./tileSources";
+import { bindTelegramTheme } from "./telegramTheme";
+import { CHECK_IN_ACCURACY_OPTIONS, useCheckIn } from "./useCheckIn";
+import { useCheckpointEditor } from "./useCheckpointEditor";
+import {
+  HISTORY_RETENTION_OPTIONS,
+  useLocationHistory,
+} from "./useLocationHistory";
+import { QUEST_OUTCOME_LABELS, QUEST_USER_KEY, useQuest } from "./useQuest";
+import {
+  ROUTE_NOISE_OPTIONS,
+  ROUTE_SPEED_OPTIONS,
+  useRoutePlayer,
+} from "./useRoutePlayer";
+import {
+  MEGABYTE,
+  TILE_CACHE_MAX_ZOOM_OPTIONS,
+  TILE_CACHE_QUOTA_OPTIONS_MB,
+  useTileDownload,
+} from "./useTileDownload";
+import { getTrackStats, toGeoJson, toGpx, type TrackPoint } from "./track";
 import marker2x from "leaflet/dist/images/marker-icon-2x.png?url";
 import marker from "leaflet/dist/images/marker-icon.png?url";
 import markerShadow from "leaflet/dist/images/marker-shadow.png?url";
 
 const DEFAULT_ZOOM = 16;
 const DEFAULT_ACCURACY = 25;
-const TELEGRAM_POLL_INTERVAL = 5000;
 const GEO_PERMISSION_DENIED = 1;
 const GEO_POSITION_UNAVAILABLE = 2;
 const GEO_TIMEOUT = 3;
-const DEFAULT_MARKER = {
-  name: "Checkpoint",
-  lat: 51.131849,
-  lng: 71.381401,
-  radius: 20,
+const GEOFENCE_TOAST_DURATION = 4000;
+const MAX_LISTED_IMPORT_ISSUES = 5;
+const PERSIST_DEBOUNCE = 1500;
+const TILE_SOURCES = getTileSources();
+const LAUNCH_DEEP_LINK = readLaunchDeepLink();
+const FOCUS_ZOOM = 17;
+const QUEST_TIME_LIMIT_OPTIONS = [0, 15, 30, 60, 120];
+const HISTORY_PLAYBACK_SPEEDS = [10, 60, 300];
+const HISTORY_EVENT_LABELS: Record<GeofenceEventType, string> = {
+  enter: "Entered",
+  exit: "Left",
+  dwell: "Stayed at",
+};
+const LOCATION_SOURCE_MODE_LABELS: Record<LocationSourceMode, string> = {
+  auto: "Auto",
+  telegram: "Telegram",
+  navigator: "Browser",
+  fused: "Fused",
+};
+const FIX_SMOOTHING_LABELS: Record<FixSmoothing, string> = {
+  off: "Off (raw fixes)",
+  kalman: "Kalman",
+  weighted: "Accuracy-weighted",
 };
-const EARTH_RADIUS_METERS = 6_371_000;
+const LOCATION_SOURCE_LABELS: Record<LocationSourceId, string> = {
+  telegram: "Telegram",
+  navigator: "Browser GPS",
+  fused: "Fused",
+  simulated: "Simulator",
+  scripted: "Scripted",
+};
+L.Icon.Default.mergeOptions({
+  iconRetinaUrl: marker2x,
+  iconUrl: marker,
+  shadowUrl: markerShadow,
+});
 
-const toRadians = (value: number) => (value * Math.PI) / 180;
+const formatGeofenceEvent = (event: GeofenceEvent) => {
+  switch (event.type) {
+    case "enter":
+      return `Entered ${event.geofence.name}`;
+    case "exit":
+      return `Left ${event.geofence.name}`;
+    case "dwell":
+      return `At ${event.geofence.name} for ${Math.round(
+        event.dwellTime / 1000
+      )} s`;
+  }
+};
 
-const getDistanceInMeters = (
-  lat1: number,
-  lng1: number,
-  lat2: number,
-  lng2: number
+const formatCheckIn = (
+  name: string,
+  state: GeofenceState,
+  result: CheckInResult
 ) => {
-  const dLat = toRadians(lat2 - lat1);
-  const dLng = toRadians(lng2 - lng1);
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(toRadians(lat1)) *
-      Math.cos(toRadians(lat2)) *
-      Math.sin(dLng / 2) *
-      Math.sin(dLng / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return EARTH_RADIUS_METERS * c;
+  const edgeDistance = Math.round(Math.abs(state.boundaryDistance));
+
+  if (result.status === "confirmed") {
+    return `At ${name} (${edgeDistance} m from edge)`;
+  }
+
+  return `Possibly at ${name}: ${result.reasons.join(", ")}`;
 };
 
-type LocationPreset = {
-  id: string;
-  label: string;
-  lat: number;
-  lng: number;
-  isCurrent?: boolean;
+const formatBytes = (bytes: number) =>
+  bytes >= MEGABYTE
+    ? `${(bytes / MEGABYTE).toFixed(1)} MB`
+    : `${Math.round(bytes / 1024)} KB`;
+
+const formatDuration = (seconds: number) => {
+  const total = Math.round(seconds);
+  const minutes = Math.floor(total / 60);
+  return `${minutes}:${String(total % 60).padStart(2, "0")}`;
 };
 
-const LOCATION_PRESETS: LocationPreset[] = [
-  {
-    id: "current",
-    label: "- Current location -",
-    lat: 0,
-    lng: 0,
-    isCurrent: true,
-  },
-  {
-    id: "san-francisco",
-    label: "San Francisco",
-    lat: 37.774929,
-    lng: -122.419416,
-  },
-  { id: "new-york", label: "New York City", lat: 40.712776, lng: -74.005974 },
-  { id: "london", label: "London", lat: 51.507351, lng: -0.127758 },
-  { id: "tokyo", label: "Tokyo", lat: 35.676422, lng: 139.650109 },
-  { id: "paris", label: "Paris", lat: 48.856613, lng: 2.352222 },
-  { id: "sydney", label: "Sydney", lat: -33.86882, lng: 151.209296 },
-];
+const formatDwellTime = (milliseconds: number) => {
+  const minutes = Math.floor(milliseconds / 60000);
+  if (minutes < 1) {
+    return "<1 min";
+  }
+  return minutes >= 60
+    ? `${Math.floor(minutes / 60)} h ${minutes % 60} min`
+    : `${minutes} min`;
+};
 
-L.Icon.Default.mergeOptions({
-  iconRetinaUrl: marker2x,
-  iconUrl: marker,
-  shadowUrl: markerShadow,
-});
+const formatClock = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+
+const formatLocationSource = ({ source, contributors }: Position) => {
+  if (!source) {
+    return "";
+  }
+
+  const label = LOCATION_SOURCE_LABELS[source];
+  return contributors && contributors.length > 0
+    ? `${label} (${contributors
+        .map((item) => LOCATION_SOURCE_LABELS[item])
+        .join(" + ")})`
+    : label;
+};
+
+type SimulationOptions = {
+  accuracy?: number;
+  /** When false the map pans to the position instead of resetting the view. */
+  recenter?: boolean;
+  /** When false the map stays put, e.g. while the user drags the marker. */
+  follow?: boolean;
+};
+
+type SimulationView = {
+  label?: string;
+  recenter: boolean;
+};
 
 type Position = {
   lat: number;
   lng: number;
   accuracy: number;
+  source?: LocationSourceId;
+  contributors?: LocationSourceId[];
+  timestamp?: number;
 };
 
 function App() {
@@ -95,31 +255,209 @@ function App() {
   const markerRef = useRef<L.Marker | null>(null);
   const accuracyCircleRef = useRef<L.Circle | null>(null);
   const centeredRef = useRef(false);
-  const watchIdRef = useRef<number | null>(null);
+  /** Cleared while a deep-linked view is shown so fixes don't pan it away. */
+  const followRef = useRef(!LAUNCH_DEEP_LINK.view);
+  /** Checkpoint to centre on once it has been loaded; an explicit view wins. */
+  const focusPendingRef = useRef(
+    LAUNCH_DEEP_LINK.view ? undefined : LAUNCH_DEEP_LINK.focus
+  );
   const modeRef = useRef<"gps" | "simulated">("gps");
   const lastGpsPositionRef = useRef<Position | null>(null);
+  const positionRef = useRef<Position | null>(null);
+  const rawPositionRef = useRef<Position | null>(null);
   const selectedLocationRef = useRef<string>(LOCATION_PRESETS[0].id);
-  const locationSourceRef = useRef<"telegram" | "navigator" | "none">("none");
-  const defaultMarkerLayersRef = useRef<{
-    marker: L.Marker | null;
-    circle: L.Circle | null;
-  }>({ marker: null, circle: null });
+  const locationSourceRef = useRef<LocationSourceId | "none">("none");
+  const simulationViewRef = useRef<SimulationView>({ recenter: true });
+  const fixFilterRef = useRef<FixFilter>(createFixFilter());
+  const speedEstimatorRef = useRef(createSpeedEstimator());
+  const adaptivePollingRef = useRef(createAdaptivePolling());
+  const rawMarkerRef = useRef<L.CircleMarker | null>(null);
+  const debugVisibleRef = useRef(false);
+  const geofenceLayersRef = useRef<Map<string, GeofenceLayers>>(new Map());
+  const geofencesRef = useRef<Geofence[]>(DEFAULT_GEOFENCES);
+  const recordingRef = useRef(false);
+  const trackPolylineRef = useRef<L.Polyline | null>(null);
 
   const [statusMessage, setStatusMessage] = useState("Requesting location…");
   const [position, setPosition] = useState<Position | null>(null);
   const [mode, setMode] = useState<"gps" | "simulated">("gps");
+  const [sourceMode, setSourceMode] = useState<LocationSourceMode>("auto");
+  const [smoothing, setSmoothing] = useState<FixSmoothing>(
+    DEFAULT_FIX_FILTER_OPTIONS.smoothing
+  );
+  const [rawPosition, setRawPosition] = useState<Position | null>(null);
+  const [lastRejection, setLastRejection] = useState<string | null>(null);
+  const [debugVisible, setDebugVisible] = useState(false);
+  const [mapView, setMapView] = useState<{
+    bounds: L.LatLngBounds;
+    zoom: number;
+  } | null>(null);
+  const [tileSelection, setTileSelection] = useState<TileSelection | null>(
+    null
+  );
+  const appStoreRef = useRef<AppStore | null>(null);
+  const [hydrated, setHydrated] = useState(false);
+  const [pendingSimulation, setPendingSimulation] = useState<
+    DeepLinkState["simulate"] | null
+  >(null);
+  /** Remote checkpoint file loaded from the launch link, kept for sharing. */
+  const [remoteCheckpointsUrl, setRemoteCheckpointsUrl] = useState<
+    string | null
+  >(null);
+  /** Checkpoints from a launch link; shown but never saved. */
+  const [linkedCheckpointIds, setLinkedCheckpointIds] = useState<
+    ReadonlySet<string>
+  >(() => new Set());
+  const [presetName, setPresetName] = useState("");
+  const [pollDelay, setPollDelay] = useState<number | null | undefined>(
+    undefined
+  );
   const [selectedLocationId, setSelectedLocationId] = useState<string>(
     LOCATION_PRESETS[0].id
   );
   const [draftLat, setDraftLat] = useState<string>("");
   const [draftLng, setDraftLng] = useState<string>("");
-  const [insideDefaultMarker, setInsideDefaultMarker] = useState(false);
-  const [defaultMarkerDistance, setDefaultMarkerDistance] = useState<
-    number | null
-  >(null);
+  const [coordinateInput, setCoordinateInput] = useState("");
+  const [coordinateResult, setCoordinateResult] =
+    useState<CoordinateParseResult | null>(null);
+  const [coordinateFormat, setCoordinateFormat] =
+    useState<CoordinateDisplayFormat>("decimal");
+  const [geofences, setGeofences] = useState<Geofence[]>(DEFAULT_GEOFENCES);
+  const [customPresets, setCustomPresets] = useState<LocationPreset[]>([]);
+  const [importIssues, setImportIssues] = useState<ImportIssue[]>([]);
+  const [geofenceEngine] = useState(() => createGeofenceEngine());
+  const [geofenceStates, setGeofenceStates] = useState<
+    Record<string, GeofenceState>
+  >({});
+  const [geofenceToast, setGeofenceToast] = useState<GeofenceEvent | null>(
+    null
+  );
+  const [recording, setRecording] = useState(false);
+  const [trackPoints, setTrackPoints] = useState<TrackPoint[]>([]);
+  const [simulatedProvider] = useState(() => createSimulatedProvider());
+  /** Checkpoint to navigate to; null picks the quest target or nearest. */
+  const [navigationTargetId, setNavigationTargetId] = useState<string | null>(
+    null
+  );
+  const [groundSpeed, setGroundSpeed] = useState<number | null>(null);
+  const [compass] = useState(() => createCompass());
+  const [compassSource, setCompassSource] = useState<CompassSource | null>(
+    null
+  );
+  const [deviceHeading, setDeviceHeading] = useState<number | null>(null);
+
+  const {
+    historyStore,
+    historyRetentionDays,
+    setHistoryRetentionDays,
+    timelineOpen,
+    historyDay,
+    setHistoryDay,
+    historyFixes,
+    historyEnd,
+    historyTime,
+    setHistoryTime,
+    historyPlaying,
+    setHistoryPlaying,
+    historySpeed,
+    setHistorySpeed,
+    heatmapVisible,
+    setHeatmapVisible,
+    checkpointStats,
+    historyEventAtTime,
+    recordHistoryFix,
+    handleTimelineToggle,
+    handleHistoryPlayToggle,
+    handleHistoryClear,
+  } = useLocationHistory({
+    geofenceEngine,
+    geofenceStates,
+    hydrated,
+    modeRef,
+    mapRef,
+    followRef,
+    setStatusMessage,
+  });
+
+  const {
+    questSession,
+    loadedQuest,
+    setLoadedQuest,
+    questOrdered,
+    setQuestOrdered,
+    questUnlock,
+    setQuestUnlock,
+    questTimeLimit,
+    setQuestTimeLimit,
+    questNow,
+    questDeadline,
+    questSummary,
+    questUnlockedSteps,
+    questHints,
+    restoreQuestSession,
+    completeQuestCheckIn,
+    handleQuestFileChange,
+    handleQuestStart: startQuestSession,
+    handleQuestHint,
+    handleQuestAbandon,
+    handleQuestDismiss,
+  } = useQuest({
+    geofences,
+    geofenceStates,
+    modeRef,
+    appStoreRef,
+    setStatusMessage,
+  });
+
+  const {
+    maxCheckInAccuracy,
+    setMaxCheckInAccuracy,
+    checkIns,
+    spoofingSignals,
+    recordCheckInFix,
+  } = useCheckIn({
+    geofences,
+    geofenceStates,
+    geofenceEngine,
+    position,
+    mode,
+    debugVisible,
+    onConfirmed: completeQuestCheckIn,
+    setStatusMessage,
+  });
 
   modeRef.current = mode;
+  debugVisibleRef.current = debugVisible;
+  recordingRef.current = recording;
+  positionRef.current = position;
+  rawPositionRef.current = rawPosition;
   selectedLocationRef.current = selectedLocationId;
+  geofencesRef.current = geofences;
+
+  const presets = useMemo(
+    () => [...LOCATION_PRESETS, ...customPresets],
+    [customPresets]
+  );
+
+  const {
+    tileCacheStats,
+    tileDownload,
+    tileCacheMaxZoom,
+    setTileCacheMaxZoom,
+    tileDownloadCount,
+    tileDownloadBytes,
+    handleTileDownload,
+    handleTileQuotaChange,
+    handleTileCacheClear,
+  } = useTileDownload({
+    mapView,
+    baseSource: TILE_SOURCES.find(
+      (source) => source.id === tileSelection?.baseId
+    ),
+    setStatusMessage,
+  });
+
+  const trackStats = useMemo(() => getTrackStats(trackPoints), [trackPoints]);
 
   const parseNumber = useCallback((value: string) => {
     const trimmed = value.trim();
@@ -133,9 +471,8 @@ function App() {
 
   const parsedLat = parseNumber(draftLat);
   const parsedLng = parseNumber(draftLng);
-  const isLatValid = parsedLat !== null && parsedLat >= -90 && parsedLat <= 90;
-  const isLngValid =
-    parsedLng !== null && parsedLng >= -180 && parsedLng <= 180;
+  const isLatValid = isValidLatitude(parsedLat);
+  const isLngValid = isValidLongitude(parsedLng);
   const coordinatesValid = isLatValid && isLngValid;
 
   const updateMapElements = useCallback(
@@ -165,6 +502,10 @@ function App() {
         accuracyCircleRef.current.setRadius(accuracy);
       }
 
+      if (!followRef.current) {
+        return;
+      }
+
       if (!centeredRef.current) {
         mapRef.current.setView(latLng, DEFAULT_ZOOM);
         centeredRef.current = true;
@@ -175,12 +516,92 @@ function App() {
     []
   );
 
+  const updateGeofenceStates = useCallback(
+    (lat: number, lng: number) => {
+      const states = geofenceEngine.update(lat, lng);
+      setGeofenceStates(states);
+      return states;
+    },
+    [geofenceEngine]
+  );
+
+  const updateRawMarker = useCallback((lat: number, lng: number) => {
+    if (!mapRef.current || !debugVisibleRef.current) {
+      return;
+    }
+
+    const latLng = L.latLng(lat, lng);
+    if (!rawMarkerRef.current) {
+      rawMarkerRef.current = L.circleMarker(latLng, {
+        radius: 4,
+        color: "#64748b",
+        fillColor: "#94a3b8",
+        fillOpacity: 0.9,
+        weight: 1,
+      }).addTo(mapRef.current);
+    } else {
+      rawMarkerRef.current.setLatLng(latLng);
+    }
+  }, []);
+
+  const recordTrackPoint = useCallback((point: TrackPoint) => {
+    if (!recordingRef.current) {
+      return;
+    }
+
+    setTrackPoints((points) => [...points, point]);
+
+    if (!mapRef.current) {
+      return;
+    }
+
+    const latLng = L.latLng(point.lat, point.lng);
+    if (!trackPolylineRef.current) {
+      trackPolylineRef.current = L.polyline([latLng], {
+        color: "#a855f7",
+        weight: 4,
+        opacity: 0.85,
+      }).addTo(mapRef.current);
+    } else {
+      trackPolylineRef.current.addLatLng(latLng);
+    }
+  }, []);
+
   const handleLocationSuccess = useCallback(
-    (lat: number, lng: number, accuracy?: number) => {
-      if (!Number.isFinite(lat) || !Number.isFinite(lng)) {
+    (rawFix: LocationFix) => {
+      if (!Number.isFinite(rawFix.lat) || !Number.isFinite(rawFix.lng)) {
+        return;
+      }
+
+      // The device keeps reporting while simulating; only the stream that
+      // drives the position belongs in the check-in trail.
+      if (modeRef.current === "gps") {
+        recordCheckInFix({
+          lat: rawFix.lat,
+          lng: rawFix.lng,
+          accuracy: rawFix.accuracy ?? DEFAULT_ACCURACY,
+          timestamp: rawFix.timestamp,
+          source: rawFix.source,
+        });
+      }
+      const result = fixFilterRef.current.process(rawFix);
+      setRawPosition({
+        lat: rawFix.lat,
+        lng: rawFix.lng,
+        accuracy: rawFix.accuracy ?? DEFAULT_ACCURACY,
+        source: rawFix.source,
+      });
+      updateRawMarker(rawFix.lat, rawFix.lng);
+
+      if (!result.accepted) {
+        setLastRejection(result.reason);
         return;
       }
 
+      const { fix } = result;
+      const { lat, lng, accuracy, timestamp } = fix;
+      adaptivePollingRef.current.observeFix(fix);
+
       const normalizedAccuracy = Math.max(
         Number.isFinite(accuracy) ? Number(accuracy) : DEFAULT_ACCURACY,
         5
@@ -190,9 +611,25 @@ function App() {
         lat,
         lng,
         accuracy: normalizedAccuracy,
+        source: fix.source,
+        contributors: fix.contributors,
+        timestamp,
       };
 
       lastGpsPositionRef.current = nextPosition;
+      recordHistoryFix({
+        lat,
+        lng,
+        accuracy: normalizedAccuracy,
+        timestamp,
+        source: fix.source,
+      });
+      recordTrackPoint({
+        lat,
+        lng,
+        accuracy: normalizedAccuracy,
+        timestamp,
+      });
 
       if (
         modeRef.current === "gps" &&
@@ -209,17 +646,25 @@ function App() {
       setPosition(nextPosition);
       setStatusMessage("Tracking your position");
       updateMapElements(lat, lng, normalizedAccuracy);
-
-      const distance = getDistanceInMeters(
-        lat,
-        lng,
-        DEFAULT_MARKER.lat,
-        DEFAULT_MARKER.lng
+      const states = Object.values(updateGeofenceStates(lat, lng));
+      adaptivePollingRef.current.setBoundaryDistance(
+        states.length > 0
+          ? Math.min(...states.map((state) => Math.abs(state.boundaryDistance)))
+          : null
       );
-      setDefaultMarkerDistance(distance);
-      setInsideDefaultMarker(distance <= DEFAULT_MARKER.radius);
     },
-    [setDraftLat, setDraftLng, setPosition, setStatusMessage, updateMapElements]
+    [
+      setDraftLat,
+      setDraftLng,
+      setPosition,
+      setStatusMessage,
+      updateMapElements,
+      updateGeofenceStates,
+      recordTrackPoint,
+      updateRawMarker,
+      recordHistoryFix,
+      recordCheckInFix,
+    ]
   );
 
   const handleLocationError = useCallback(
@@ -275,30 +720,71 @@ function App() {
     [setStatusMessage]
   );
 
+  const handleSimulatedFix = useCallback(
+    (fix: LocationFix) => {
+      const { label, recenter } = simulationViewRef.current;
+      const accuracy = fix.accuracy ?? DEFAULT_ACCURACY;
+
+      if (recenter) {
+        centeredRef.current = false;
+      }
+      recordCheckInFix({
+        lat: fix.lat,
+        lng: fix.lng,
+        accuracy,
+        timestamp: fix.timestamp,
+        source: fix.source,
+      });
+      setPosition({
+        lat: fix.lat,
+        lng: fix.lng,
+        accuracy,
+        source: fix.source,
+        timestamp: fix.timestamp,
+      });
+      setStatusMessage(label ? `Simulating: ${label}` : "Simulating location");
+      updateMapElements(fix.lat, fix.lng, accuracy);
+      updateGeofenceStates(fix.lat, fix.lng);
+    },
+    [recordCheckInFix, updateMapElements, updateGeofenceStates]
+  );
+
   const applySimulatedPosition = useCallback(
-    (lat: number, lng: number, label?: string) => {
+    (
+      lat: number,
+      lng: number,
+      label?: string,
+      {
+        accuracy = DEFAULT_ACCURACY,
+        recenter = true,
+        follow = true,
+      }: SimulationOptions = {}
+    ) => {
       if (!Number.isFinite(lat) || !Number.isFinite(lng)) {
         return;
       }
 
-      centeredRef.current = false;
-      const accuracy = DEFAULT_ACCURACY;
-      const nextPosition = { lat, lng, accuracy };
-      setPosition(nextPosition);
-      setStatusMessage(label ? `Simulating: ${label}` : "Simulating location");
-      updateMapElements(lat, lng, accuracy);
-      const distance = getDistanceInMeters(
-        lat,
-        lng,
-        DEFAULT_MARKER.lat,
-        DEFAULT_MARKER.lng
-      );
-      setDefaultMarkerDistance(distance);
-      setInsideDefaultMarker(distance <= DEFAULT_MARKER.radius);
+      followRef.current = follow;
+      simulationViewRef.current = { label, recenter };
+      simulatedProvider.push(lat, lng, accuracy);
     },
-    [updateMapElements]
+    [simulatedProvider]
   );
 
+  useEffect(() => {
+    if (mode !== "simulated") {
+      return;
+    }
+
+    const unsubscribe = simulatedProvider.onFix(handleSimulatedFix);
+    simulatedProvider.start();
+
+    return () => {
+      simulatedProvider.stop();
+      unsubscribe();
+    };
+  }, [mode, simulatedProvider, handleSimulatedFix]);
+
   useEffect(() => {
     if (!mapContainerRef.current) {
       return;
@@ -311,235 +797,804 @@ function App() {
       // ignore environments where init is not available
     }
 
+    const initialView = LAUNCH_DEEP_LINK.view;
     mapRef.current = L.map(mapContainerRef.current, {
-      center: [0, 0],
-      zoom: DEFAULT_ZOOM,
+      center: initialView ? [initialView.lat, initialView.lng] : [0, 0],
+      zoom: initialView?.zoom ?? DEFAULT_ZOOM,
       zoomControl: false,
       maxZoom: 19,
       minZoom: 3,
     });
 
-    L.tileLayer("https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png", {
-      attribution: "&copy; OpenStreetMap contributors",
-    }).addTo(mapRef.current);
+    const map = mapRef.current;
+    const selection = loadTileSelection(TILE_SOURCES);
+    const baseLayers: Record<string, L.TileLayer> = {};
+    const overlays: Record<string, L.TileLayer> = {};
+    const sourceByLayer = new Map<L.Layer, TileSource>();
+    const layerBySourceId = new Map<string, L.TileLayer>();
+
+    TILE_SOURCES.forEach((source) => {
+      const layer = L.tileLayer(source.url, {
+        attribution: source.attribution,
+        subdomains: source.subdomains ?? "abc",
+        maxZoom: source.maxZoom ?? 19,
+      });
+      sourceByLayer.set(layer, source);
+      layerBySourceId.set(source.id, layer);
 
-    const marker = L.marker([DEFAULT_MARKER.lat, DEFAULT_MARKER.lng], {
-      title: DEFAULT_MARKER.name,
-    }).bindTooltip(DEFAULT_MARKER.name, {
-      permanent: true,
-      direction: "top",
-      offset: L.point(0, -18),
+      if (source.kind === "base") {
+        baseLayers[source.name] = layer;
+        if (source.id === selection.baseId) {
+          layer.addTo(map);
+        }
+      } else {
+        overlays[source.name] = layer;
+        if (selection.overlayIds.includes(source.id)) {
+          layer.addTo(map);
+        }
+      }
     });
 
-    marker.addTo(mapRef.current);
-
-    const circle = L.circle([DEFAULT_MARKER.lat, DEFAULT_MARKER.lng], {
-      radius: DEFAULT_MARKER.radius,
-      color: "#f97316",
-      weight: 2,
-      opacity: 0.9,
-      fillColor: "#fb923c",
-      fillOpacity: 0.15,
-      dashArray: "6 6",
-    }).addTo(mapRef.current);
-
-    defaultMarkerLayersRef.current = {
-      marker,
-      circle,
+    L.control.layers(baseLayers, overlays, { position: "topright" }).addTo(map);
+    setTileSelection(selection);
+
+    /** Set while the theme swaps layers so the swap is not persisted. */
+    let autoSwitching = false;
+    /** Base layer a dark theme replaced, restored when the theme turns light. */
+    let lightBaseId: string | null = null;
+
+    const handleLayersChange = () => {
+      const active = [...sourceByLayer.entries()]
+        .filter(([layer]) => map.hasLayer(layer))
+        .map(([, source]) => source);
+      const next: TileSelection = {
+        baseId:
+          active.find((source) => source.kind === "base")?.id ??
+          selection.baseId,
+        overlayIds: active
+          .filter((source) => source.kind === "overlay")
+          .map((source) => source.id),
+      };
+      setTileSelection(next);
+      if (!autoSwitching) {
+        saveTileSelection(next);
+      }
     };
-
-    const cleanupCallbacks: Array<() => void> = [];
-
-    const startTelegramTracking = async (): Promise<boolean> => {
-      if (!locationManager.isSupported()) {
-        return false;
+    map.on("baselayerchange overlayadd overlayremove", handleLayersChange);
+    map.on("baselayerchange", () => {
+      // A manual pick wins over the theme until the next scheme switch.
+      if (!autoSwitching) {
+        lightBaseId = null;
       }
+    });
 
-      let mountedByUs = false;
+    const switchBaseLayer = (id: string) => {
+      const next = layerBySourceId.get(id);
+      if (!next || map.hasLayer(next)) {
+        return;
+      }
 
-      if (!locationManager.isMounted()) {
-        if (!locationManager.mount.isAvailable()) {
-          return false;
+      autoSwitching = true;
+      sourceByLayer.forEach((source, layer) => {
+        if (source.kind === "base" && map.hasLayer(layer)) {
+          map.removeLayer(layer);
         }
+      });
+      next.addTo(map);
+      autoSwitching = false;
+    };
+
+    const unbindTheme = bindTelegramTheme((dark) => {
+      const current = TILE_SOURCES.find((source) => {
+        const layer = layerBySourceId.get(source.id);
+        return source.kind === "base" && layer && map.hasLayer(layer);
+      });
 
-        try {
-          setStatusMessage("Connecting to Telegram location…");
-          const mountPromise = locationManager.mount();
-          mountedByUs = true;
-          await mountPromise;
-        } catch (error) {
-          handleLocationError(error);
-          return false;
+      if (dark) {
+        const darkSource = TILE_SOURCES.find(
+          (source) => source.kind === "base" && source.dark
+        );
+        if (!darkSource || current?.dark) {
+          return;
         }
+        lightBaseId = current?.id ?? null;
+        switchBaseLayer(darkSource.id);
+      } else if (lightBaseId) {
+        const id = lightBaseId;
+        lightBaseId = null;
+        switchBaseLayer(id);
       }
+    });
+
+    const handleViewChange = () => {
+      setMapView({ bounds: map.getBounds(), zoom: map.getZoom() });
+    };
+    map.on("moveend", handleViewChange);
+    handleViewChange();
+
+    return () => {
+      unbindTheme();
+      disposeSdk?.();
+
+      mapRef.current?.remove();
+      mapRef.current = null;
+      markerRef.current = null;
+      accuracyCircleRef.current = null;
+      trackPolylineRef.current = null;
+      rawMarkerRef.current = null;
+      centeredRef.current = false;
+    };
+  }, []);
 
-      setStatusMessage("Waiting for Telegram location…");
+  useEffect(() => {
+    let disposed = false;
+    let activeProvider: LocationProvider | null = null;
+    const detachCallbacks: Array<() => void> = [];
+
+    const providers = createProvidersForMode(sourceMode, {
+      telegram: {
+        getPollInterval: (consecutiveErrors) =>
+          adaptivePollingRef.current.getInterval(consecutiveErrors),
+        onPollScheduled: (delay) => {
+          if (!disposed) {
+            setPollDelay(delay);
+          }
+        },
+      },
+    });
 
-      const controller: {
-        stopped: boolean;
-        request: { abort?: () => void } | null;
-        timerId: ReturnType<typeof setTimeout> | null;
-      } = {
-        stopped: false,
-        request: null,
-        timerId: null,
+    startFirstAvailableProvider(providers, (provider) => {
+      const unsubscribers = [
+        provider.onFix((fix) => {
+          handleLocationSuccess(fix);
+        }),
+        provider.onError(handleLocationError),
+        provider.onStatus(setStatusMessage),
+      ];
+      const detach = () => {
+        unsubscribers.forEach((unsubscribe) => {
+          unsubscribe();
+        });
       };
 
-      const stop = () => {
-        controller.stopped = true;
-        if (controller.timerId !== null) {
-          window.clearTimeout(controller.timerId);
-        }
-        controller.request?.abort?.();
-        if (mountedByUs && locationManager.isMounted()) {
-          locationManager.unmount();
+      detachCallbacks.push(detach);
+      return detach;
+    })
+      .then((provider) => {
+        if (disposed) {
+          provider?.stop();
+          return;
         }
-        locationSourceRef.current = "none";
-      };
 
-      const poll = async () => {
-        if (controller.stopped) {
+        if (!provider) {
+          setStatusMessage(
+            sourceMode === "auto"
+              ? "Geolocation is not supported on this device"
+              : `${LOCATION_SOURCE_MODE_LABELS[sourceMode]} location is not available here`
+          );
           return;
         }
 
-        try {
-          const request = locationManager.requestLocation();
-          controller.request = request;
-          const location = await request;
-          controller.request = null;
+        activeProvider = provider;
+        locationSourceRef.current = provider.id;
+      })
+      .catch((error) => {
+        handleLocationError(error);
+      });
 
-          if (controller.stopped) {
-            return;
-          }
+    return () => {
+      disposed = true;
+      activeProvider?.stop();
+      detachCallbacks.splice(0).forEach((detach) => {
+        detach();
+      });
+      locationSourceRef.current = "none";
+      setPollDelay(undefined);
+    };
+  }, [sourceMode, handleLocationError, handleLocationSuccess]);
 
-          const latitude = Number(location?.latitude);
-          const longitude = Number(location?.longitude);
-          const accuracy = Number(location?.horizontal_accuracy);
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) {
+      return;
+    }
 
-          if (Number.isFinite(latitude) && Number.isFinite(longitude)) {
-            handleLocationSuccess(latitude, longitude, accuracy);
-          } else {
-            handleLocationError(
-              new Error("Invalid location data received from Telegram.")
-            );
-          }
-        } catch (error) {
-          controller.request = null;
-          if (controller.stopped) {
-            return;
-          }
+    const layers = geofenceLayersRef.current;
+    geofenceEngine.setGeofences(geofences);
 
-          handleLocationError(error);
-        } finally {
-          if (!controller.stopped) {
-            controller.timerId = window.setTimeout(
-              poll,
-              TELEGRAM_POLL_INTERVAL
-            );
-          }
-        }
-      };
+    geofences.forEach((geofence) => {
+      const geofenceLayers = createGeofenceLayers(geofence);
+      geofenceLayers.shape.addTo(map);
+      geofenceLayers.marker.addTo(map);
+      layers.set(geofence.id, geofenceLayers);
+    });
 
-      locationSourceRef.current = "telegram";
-      cleanupCallbacks.push(stop);
-      poll();
+    const reference = positionRef.current;
+    if (reference) {
+      updateGeofenceStates(reference.lat, reference.lng);
+    }
 
-      return true;
+    return () => {
+      layers.forEach(({ marker, shape }) => {
+        marker.remove();
+        shape.remove();
+      });
+      layers.clear();
     };
+  }, [geofenceEngine, geofences, updateGeofenceStates]);
+
+  const {
+    editingCheckpoints,
+    setEditingCheckpoints,
+    selectedCheckpointId,
+    setSelectedCheckpointId,
+    selectedCheckpoint,
+    checkpointName,
+    setCheckpointName,
+    geofenceHistory,
+    commitGeofences,
+    addCheckpointAt,
+    handleCheckpointRename,
+    handleCheckpointDelete,
+    handleCheckpointUndo,
+    handleCheckpointRedo,
+    handleCheckpointExport,
+  } = useCheckpointEditor({
+    geofences,
+    setGeofences,
+    geofencesRef,
+    geofenceLayersRef,
+    mapRef,
+    setStatusMessage,
+  });
 
-    const startNavigatorTracking = (): boolean => {
-      if (!navigator.geolocation) {
-        return false;
-      }
-
-      setStatusMessage("Waiting for GPS signal…");
+  useEffect(() => {
+    if (position) {
+      setGroundSpeed(speedEstimatorRef.current.observe(position));
+    }
+  }, [position]);
 
-      const watchId = navigator.geolocation.watchPosition(
-        (currentPosition) => {
-          const { latitude, longitude, accuracy } = currentPosition.coords;
-          handleLocationSuccess(latitude, longitude, accuracy);
-        },
-        (geoError) => {
-          handleLocationError(geoError);
-        },
-        {
-          enableHighAccuracy: true,
-          maximumAge: 1000,
-          timeout: 10000,
-        }
-      );
+  const navigation = useMemo(() => {
+    if (!position) {
+      return null;
+    }
 
-      watchIdRef.current = watchId;
-      locationSourceRef.current = "navigator";
+    // Without an explicit choice, head for the nearest unlocked quest step.
+    const questTargets = geofences.filter((item) =>
+      questUnlockedSteps.some((step) => step.checkpointId === item.id)
+    );
+    const target = pickNavigationTarget(
+      navigationTargetId || questTargets.length === 0
+        ? geofences
+        : questTargets,
+      position,
+      navigationTargetId
+    );
+    return target ? getNavigationInfo(target, position, groundSpeed) : null;
+  }, [
+    geofences,
+    position,
+    navigationTargetId,
+    questUnlockedSteps,
+    groundSpeed,
+  ]);
 
-      cleanupCallbacks.push(() => {
-        navigator.geolocation.clearWatch(watchId);
-        watchIdRef.current = null;
-        locationSourceRef.current = "none";
-      });
+  useEffect(() => {
+    // Sensors fire many times a second; skip re-renders for jitter.
+    let lastHeading: number | null = null;
+    const unsubscribe = compass.onHeading((heading) => {
+      if (
+        lastHeading === null ||
+        Math.abs(((heading - lastHeading + 540) % 360) - 180) >= 2
+      ) {
+        lastHeading = heading;
+        setDeviceHeading(heading);
+      }
+    });
 
-      return true;
+    return () => {
+      unsubscribe();
+      compass.stop();
     };
+  }, [compass]);
+
+  const {
+    sharingName,
+    setSharingName,
+    sharingRoom,
+    setSharingRoom,
+    joinedRoom,
+    sharingStatus,
+    sharingNow,
+    peerList,
+    handleSharingToggle,
+  } = useLiveSharing({ position, mapRef, setStatusMessage });
 
-    (async () => {
-      const telegramStarted = await startTelegramTracking();
-      if (!telegramStarted) {
-        const navigatorStarted = startNavigatorTracking();
-        if (!navigatorStarted) {
-          setStatusMessage("Geolocation is not supported on this device");
-        }
+  useEffect(() => {
+    const layers = geofenceLayersRef.current;
+    const steps = new Set(
+      questSession?.quest.steps.map((step) => step.checkpointId)
+    );
+    const unlocked = new Set(
+      questUnlockedSteps.map((step) => step.checkpointId)
+    );
+    const running = questSession?.progress.finishedAt === undefined;
+
+    layers.forEach((geofenceLayers, id) => {
+      if (!questSession || !steps.has(id)) {
+        setGeofenceQuestState(geofenceLayers, null);
+      } else if (questSession.progress.completed[id] !== undefined) {
+        setGeofenceQuestState(geofenceLayers, "done");
+      } else if (unlocked.has(id)) {
+        setGeofenceQuestState(geofenceLayers, "target");
+      } else {
+        setGeofenceQuestState(geofenceLayers, running ? "locked" : null);
       }
-    })().catch((error) => {
-      handleLocationError(error);
     });
+  }, [geofences, questSession, questUnlockedSteps]);
 
-    return () => {
-      cleanupCallbacks.splice(0).forEach((cleanup) => {
-        cleanup();
-      });
+  useEffect(() => {
+    let timerId: number | null = null;
 
-      disposeSdk?.();
+    const unsubscribe = geofenceEngine.subscribe((event) => {
+      if (timerId !== null) {
+        window.clearTimeout(timerId);
+      }
 
-      defaultMarkerLayersRef.current.marker?.remove();
-      defaultMarkerLayersRef.current.circle?.remove();
-      defaultMarkerLayersRef.current = { marker: null, circle: null };
+      setGeofenceToast(event);
+      timerId = window.setTimeout(() => {
+        setGeofenceToast(null);
+      }, GEOFENCE_TOAST_DURATION);
+    });
 
-      mapRef.current?.remove();
-      mapRef.current = null;
-      markerRef.current = null;
-      accuracyCircleRef.current = null;
-      centeredRef.current = false;
-      watchIdRef.current = null;
-      locationSourceRef.current = "none";
+    return () => {
+      unsubscribe();
+      if (timerId !== null) {
+        window.clearTimeout(timerId);
+      }
     };
-  }, [handleLocationError, handleLocationSuccess]);
+  }, [geofenceEngine]);
 
-  const applyGpsPosition = useCallback(
-    (incoming: Position | null, fallbackLabel = "Tracking your position") => {
-      if (!incoming) {
-        return false;
-      }
+  useEffect(() => () => geofenceEngine.dispose(), [geofenceEngine]);
 
-      centeredRef.current = false;
-      setPosition(incoming);
-      setStatusMessage(fallbackLabel);
-      updateMapElements(incoming.lat, incoming.lng, incoming.accuracy);
-      return true;
-    },
-    [updateMapElements]
-  );
+  useEffect(() => {
+    // Created here rather than during render: CloudStorage needs the SDK
+    // initialised by the map effect above.
+    const store = createAppStore();
+    appStoreRef.current = store;
+    let cancelled = false;
+
+    store
+      .loadQuest(QUEST_USER_KEY)
+      .then((session) => {
+        if (!cancelled && session) {
+          restoreQuestSession(session);
+        }
+      })
+      .catch((error) => {
+        console.warn("Unable to restore quest progress", error);
+      });
 
-  const handleModeChange = (nextMode: "gps" | "simulated") => {
-    if (mode === nextMode) {
-      return;
-    }
+    store
+      .load()
+      .then(({ settings, customPresets: presets, checkpoints }) => {
+        if (cancelled) {
+          return;
+        }
 
-    modeRef.current = nextMode;
+        setCustomPresets(presets);
+        setGeofences(checkpoints);
+        if (
+          settings.sourceMode &&
+          (
+            Object.keys(LOCATION_SOURCE_MODE_LABELS) as LocationSourceMode[]
+          ).includes(settings.sourceMode)
+        ) {
+          setSourceMode(settings.sourceMode);
+        }
+        if (
+          settings.smoothing &&
+          (Object.keys(FIX_SMOOTHING_LABELS) as FixSmoothing[]).includes(
+            settings.smoothing
+          )
+        ) {
+          setSmoothing(settings.smoothing);
+        }
+        if (
+          settings.maxCheckInAccuracy &&
+          CHECK_IN_ACCURACY_OPTIONS.includes(settings.maxCheckInAccuracy)
+        ) {
+          setMaxCheckInAccuracy(settings.maxCheckInAccuracy);
+        }
+        if (
+          settings.coordinateFormat &&
+          COORDINATE_DISPLAY_FORMATS.includes(settings.coordinateFormat)
+        ) {
+          setCoordinateFormat(settings.coordinateFormat);
+        }
+        if (
+          settings.historyRetentionDays &&
+          HISTORY_RETENTION_OPTIONS.includes(settings.historyRetentionDays)
+        ) {
+          setHistoryRetentionDays(settings.historyRetentionDays);
+        }
+        if (settings.sharingName) {
+          setSharingName(settings.sharingName);
+        }
+        if (settings.sharingRoom) {
+          setSharingRoom(settings.sharingRoom);
+        }
+        if (settings.mode === "simulated") {
+          modeRef.current = "simulated";
+          setMode("simulated");
+          setDraftLat(settings.draftLat ?? "");
+          setDraftLng(settings.draftLng ?? "");
+          setStatusMessage("Simulator restored — press Manage to apply");
+        }
+        if (
+          settings.selectedLocationId &&
+          [...LOCATION_PRESETS, ...presets].some(
+            (item) => item.id === settings.selectedLocationId
+          )
+        ) {
+          setSelectedLocationId(settings.selectedLocationId);
+          selectedLocationRef.current = settings.selectedLocationId;
+        }
+      })
+      .catch((error) => {
+        console.warn("Unable to restore saved state", error);
+      })
+      .finally(() => {
+        if (cancelled) {
+          return;
+        }
 
-    if (nextMode === "gps") {
-      const applied = applyGpsPosition(lastGpsPositionRef.current);
+        // Launch links override whatever the previous session left behind.
+        const { simulate } = LAUNCH_DEEP_LINK;
+        if (simulate) {
+          modeRef.current = "simulated";
+          setMode("simulated");
+          setDraftLat(simulate.lat.toFixed(6));
+          setDraftLng(simulate.lng.toFixed(6));
+          setSelectedLocationId("current");
+          selectedLocationRef.current = "current";
+          setPendingSimulation(simulate);
+        }
+        setHydrated(true);
+      });
 
-      if (!applied) {
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    restoreQuestSession,
+    setMaxCheckInAccuracy,
+    setSharingName,
+    setSharingRoom,
+    setHistoryRetentionDays,
+  ]);
+
+  useEffect(() => {
+    // Runs after the simulator effect above has started the provider.
+    if (mode !== "simulated" || !pendingSimulation) {
+      return;
+    }
+
+    simulationViewRef.current = { label: "Shared location", recenter: true };
+    simulatedProvider.push(
+      pendingSimulation.lat,
+      pendingSimulation.lng,
+      DEFAULT_ACCURACY
+    );
+    setPendingSimulation(null);
+  }, [mode, pendingSimulation, simulatedProvider]);
+
+  useEffect(() => {
+    const url = LAUNCH_DEEP_LINK.checkpoints;
+    if (!hydrated || !url) {
+      return;
+    }
+
+    const controller = new AbortController();
+    const filename = new URL(url).pathname.split("/").pop() || "checkpoints";
+
+    fetch(url, { signal: controller.signal })
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        return response.text();
+      })
+      .then((text) => {
+        const result = parseCheckpointFile(text, filename);
+        // Linked checkpoints sit next to the user's own for this session:
+        // clashing ids are renamed rather than replacing, and none are saved.
+        const ownIds = new Set(geofencesRef.current.map((item) => item.id));
+        const linked = result.geofences.map((item) =>
+          ownIds.has(item.id) ? { ...item, id: `${item.id}-linked` } : item
+        );
+
+        setLinkedCheckpointIds(new Set(linked.map((item) => item.id)));
+        setGeofences((current) => [...current, ...linked]);
+        setImportIssues(result.issues);
+        setRemoteCheckpointsUrl(url);
+        setStatusMessage(
+          `Loaded ${result.geofences.length} checkpoint(s) from ${filename}`
+        );
+      })
+      .catch((error) => {
+        if (controller.signal.aborted) {
+          return;
+        }
+        console.warn("Unable to load linked checkpoints", error);
+        setStatusMessage(`Unable to load checkpoints from ${filename}`);
+      });
+
+    return () => {
+      controller.abort();
+    };
+  }, [hydrated]);
+
+  useEffect(() => {
+    const focus = focusPendingRef.current;
+    const map = mapRef.current;
+    if (!focus || !map) {
+      return;
+    }
+
+    const target =
+      geofences.find((item) => item.id === focus) ??
+      geofences.find((item) => item.name.toLowerCase() === focus.toLowerCase());
+    if (!target) {
+      return;
+    }
+
+    focusPendingRef.current = undefined;
+    followRef.current = false;
+    const { lat, lng } = getGeofenceAnchor(target);
+    map.setView([lat, lng], Math.max(map.getZoom(), FOCUS_ZOOM));
+  }, [geofences]);
+
+  // Drafts follow every GPS fix but are only restored for the simulator.
+  const savedDraftLat = mode === "simulated" ? draftLat : undefined;
+  const savedDraftLng = mode === "simulated" ? draftLng : undefined;
+
+  useEffect(() => {
+    const store = appStoreRef.current;
+    if (!hydrated || !store) {
+      return;
+    }
+
+    const timerId = window.setTimeout(() => {
+      store
+        .save({
+          settings: {
+            mode,
+            selectedLocationId,
+            draftLat: savedDraftLat,
+            draftLng: savedDraftLng,
+            sourceMode,
+            smoothing,
+            maxCheckInAccuracy,
+            coordinateFormat,
+            sharingName,
+            sharingRoom,
+            historyRetentionDays,
+          },
+          customPresets,
+          checkpoints: geofences.filter(
+            (item) => !linkedCheckpointIds.has(item.id)
+          ),
+        })
+        .catch((error) => {
+          console.warn("Unable to save state", error);
+        });
+    }, PERSIST_DEBOUNCE);
+
+    return () => {
+      window.clearTimeout(timerId);
+    };
+  }, [
+    hydrated,
+    mode,
+    selectedLocationId,
+    savedDraftLat,
+    savedDraftLng,
+    sourceMode,
+    smoothing,
+    maxCheckInAccuracy,
+    coordinateFormat,
+    sharingName,
+    sharingRoom,
+    historyRetentionDays,
+    customPresets,
+    geofences,
+    linkedCheckpointIds,
+  ]);
+
+  useEffect(() => {
+    fixFilterRef.current = createFixFilter({ smoothing });
+    setLastRejection(null);
+  }, [smoothing]);
+
+  useEffect(() => {
+    // Read through the ref: fixes move the marker themselves, so this only
+    // reacts to the toggle.
+    const raw = rawPositionRef.current;
+    if (!debugVisible) {
+      rawMarkerRef.current?.remove();
+      rawMarkerRef.current = null;
+    } else if (raw) {
+      updateRawMarker(raw.lat, raw.lng);
+    }
+  }, [debugVisible, updateRawMarker]);
+
+  const handleRouteFix = useCallback(
+    (fix: RoutePlayerFix) => {
+      applySimulatedPosition(fix.lat, fix.lng, "Route playback", {
+        accuracy: fix.accuracy,
+        recenter: false,
+      });
+    },
+    [applySimulatedPosition]
+  );
+
+  const {
+    routePlayer,
+    route,
+    routePlayerState,
+    drawingRoute,
+    setDrawingRoute,
+    handleRouteFileChange,
+    handleRouteClear,
+  } = useRoutePlayer({
+    accuracy: DEFAULT_ACCURACY,
+    mapRef,
+    modeRef,
+    onFix: handleRouteFix,
+    setStatusMessage,
+  });
+
+  const simulateAt = useCallback(
+    (lat: number, lng: number, label: string) => {
+      setDraftLat(lat.toFixed(6));
+      setDraftLng(lng.toFixed(6));
+      applySimulatedPosition(lat, lng, label, {
+        recenter: false,
+        follow: false,
+      });
+    },
+    [applySimulatedPosition]
+  );
+
+  // updateMapElements creates the marker with the first position.
+  const hasPosition = position !== null;
+
+  useEffect(() => {
+    const marker = markerRef.current;
+    if (!marker?.dragging || mode !== "simulated") {
+      return;
+    }
+
+    const handleDrag = () => {
+      const { lat, lng } = marker.getLatLng();
+      simulateAt(lat, lng, "Dragging marker");
+    };
+
+    marker.dragging.enable();
+    marker.on("drag", handleDrag);
+    return () => {
+      marker.off("drag", handleDrag);
+      marker.dragging?.disable();
+    };
+  }, [mode, hasPosition, simulateAt]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || mode !== "simulated") {
+      return;
+    }
+
+    let popup: L.Popup | null = null;
+    let menuWasOpen = false;
+
+    // Leaflet closes popups on preclick; a tap that dismisses the menu
+    // should not also teleport.
+    const handlePreClick = () => {
+      menuWasOpen = popup?.isOpen() ?? false;
+    };
+
+    const handleClick = (event: L.LeafletMouseEvent) => {
+      // Route drawing and the checkpoint editor own map taps while active.
+      if (!menuWasOpen && !drawingRoute && !editingCheckpoints) {
+        simulateAt(event.latlng.lat, event.latlng.lng, "Map tap");
+      }
+    };
+
+    // Fired by right-click and by long-press on touch screens.
+    const handleContextMenu = (event: L.LeafletMouseEvent) => {
+      const { lat, lng } = event.latlng;
+
+      popup = openMapMenu(map, event.latlng, [
+        {
+          label: "Simulate here",
+          onSelect: () => simulateAt(lat, lng, "Map location"),
+        },
+        {
+          label: "Add checkpoint here",
+          onSelect: () => addCheckpointAt(lat, lng),
+        },
+        {
+          label: "Copy coordinates",
+          onSelect: () => {
+            const text = formatCoordinates(lat, lng, coordinateFormat);
+            // Older webviews and insecure origins have no clipboard API; the
+            // text is then left in the status line to copy by hand.
+            if (!navigator.clipboard?.writeText) {
+              setStatusMessage(text);
+              return;
+            }
+
+            navigator.clipboard
+              .writeText(text)
+              .then(() => setStatusMessage(`Copied ${text}`))
+              .catch(() => setStatusMessage(text));
+          },
+        },
+      ]);
+    };
+
+    map.on("preclick", handlePreClick);
+    map.on("click", handleClick);
+    map.on("contextmenu", handleContextMenu);
+    return () => {
+      map.off("preclick", handlePreClick);
+      map.off("click", handleClick);
+      map.off("contextmenu", handleContextMenu);
+      if (popup) {
+        map.closePopup(popup);
+      }
+    };
+  }, [
+    mode,
+    drawingRoute,
+    editingCheckpoints,
+    simulateAt,
+    addCheckpointAt,
+    coordinateFormat,
+  ]);
+
+  const applyGpsPosition = useCallback(
+    (incoming: Position | null, fallbackLabel = "Tracking your position") => {
+      if (!incoming) {
+        return false;
+      }
+
+      centeredRef.current = false;
+      setPosition(incoming);
+      setStatusMessage(fallbackLabel);
+      updateMapElements(incoming.lat, incoming.lng, incoming.accuracy);
+      updateGeofenceStates(incoming.lat, incoming.lng);
+      return true;
+    },
+    [updateMapElements, updateGeofenceStates]
+  );
+
+  const handleModeChange = (nextMode: "gps" | "simulated") => {
+    if (mode === nextMode) {
+      return;
+    }
+
+    modeRef.current = nextMode;
+    followRef.current = true;
+
+    if (nextMode === "gps") {
+      routePlayer.pause();
+      setDrawingRoute(false);
+
+      const applied = applyGpsPosition(lastGpsPositionRef.current);
+
+      if (!applied) {
         centeredRef.current = false;
         setPosition(null);
         setStatusMessage(
@@ -572,7 +1627,7 @@ function App() {
     setSelectedLocationId(nextId);
     selectedLocationRef.current = nextId;
 
-    const preset = LOCATION_PRESETS.find((item) => item.id === nextId);
+    const preset = presets.find((item) => item.id === nextId);
     if (!preset) {
       return;
     }
@@ -601,12 +1656,187 @@ function App() {
     }
   };
 
+  const handleRecordingToggle = () => {
+    if (recording) {
+      recordingRef.current = false;
+      setRecording(false);
+      return;
+    }
+
+    trackPolylineRef.current?.remove();
+    trackPolylineRef.current = null;
+    setTrackPoints([]);
+    recordingRef.current = true;
+    setRecording(true);
+  };
+
+  const handleTrackExport = (format: "gpx" | "geojson") => {
+    const startedAt = new Date(trackPoints[0]?.timestamp ?? Date.now());
+    const name = `Track ${startedAt.toISOString()}`;
+    const basename = `track-${startedAt.toISOString().replace(/[:.]/g, "-")}`;
+
+    if (format === "gpx") {
+      downloadTextFile(
+        `${basename}.gpx`,
+        toGpx(trackPoints, name),
+        "application/gpx+xml"
+      );
+    } else {
+      downloadTextFile(
+        `${basename}.geojson`,
+        toGeoJson(trackPoints, name),
+        "application/geo+json"
+      );
+    }
+  };
+
+  const handleCheckpointFileChange = async (
+    event: ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+
+    try {
+      const result = parseCheckpointFile(await file.text(), file.name);
+      const importedIds = new Set(result.geofences.map((item) => item.id));
+
+      commitGeofences([
+        ...geofencesRef.current.filter((item) => !importedIds.has(item.id)),
+        ...result.geofences,
+      ]);
+      setCustomPresets((current) => [
+        ...current.filter((item) => !importedIds.has(item.id)),
+        ...result.presets,
+      ]);
+      setImportIssues(result.issues);
+      setStatusMessage(
+        `Imported ${result.geofences.length} checkpoint(s) from ${file.name}` +
+          (result.issues.length > 0
+            ? `, skipped ${result.issues.length} invalid row(s)`
+            : "")
+      );
+    } catch (error) {
+      setStatusMessage(
+        error instanceof Error
+          ? error.message
+          : "Unable to read checkpoint file."
+      );
+    }
+  };
+
+  const handleCheckpointEditToggle = () => {
+    setDrawingRoute(false);
+    setEditingCheckpoints((value) => !value);
+  };
+
+  const handleQuestStart = () => {
+    setEditingCheckpoints(false);
+    startQuestSession();
+  };
+
+  const handleCompassToggle = async () => {
+    if (compassSource) {
+      compass.stop();
+      setCompassSource(null);
+      setDeviceHeading(null);
+      return;
+    }
+
+    const source = await compass.start();
+    setCompassSource(source);
+    if (!source) {
+      setStatusMessage("No compass available; the arrow follows map north");
+    }
+  };
+
+  const handlePeerFocus = (peer: PeerState) => {
+    followRef.current = false;
+    mapRef.current?.setView(
+      [peer.position.lat, peer.position.lng],
+      Math.max(mapRef.current.getZoom(), FOCUS_ZOOM)
+    );
+  };
+
+  const handlePresetSave = () => {
+    const name = presetName.trim();
+    if (!name || parsedLat === null || parsedLng === null) {
+      return;
+    }
+
+    const preset: LocationPreset = {
+      id: `custom-${Date.now().toString(36)}`,
+      label: name,
+      lat: parsedLat,
+      lng: parsedLng,
+    };
+    setCustomPresets((current) => [...current, preset]);
+    setSelectedLocationId(preset.id);
+    selectedLocationRef.current = preset.id;
+    setPresetName("");
+  };
+
+  const handlePresetDelete = () => {
+    setCustomPresets((current) =>
+      current.filter((item) => item.id !== selectedLocationId)
+    );
+    setSelectedLocationId("current");
+    selectedLocationRef.current = "current";
+  };
+
+  const handleShareView = async () => {
+    const map = mapRef.current;
+    if (!map) {
+      return;
+    }
+
+    const center = map.getCenter();
+    const link = buildShareLink({
+      view: { lat: center.lat, lng: center.lng, zoom: map.getZoom() },
+      checkpoints: remoteCheckpointsUrl ?? undefined,
+      simulate:
+        mode === "simulated" && position
+          ? { lat: position.lat, lng: position.lng }
+          : undefined,
+    });
+
+    try {
+      const result = await shareLink(link);
+      if (result === "copied") {
+        setStatusMessage("Link to this view copied");
+      }
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") {
+        return;
+      }
+      setStatusMessage(`Share this link: ${link}`);
+    }
+  };
+
+  const handleCoordinateInputChange = (value: string) => {
+    setCoordinateInput(value);
+
+    const center = mapRef.current?.getCenter();
+    const reference =
+      positionRef.current ??
+      (center ? { lat: center.lat, lng: center.lng } : null);
+    const result = parseCoordinates(value, reference);
+    setCoordinateResult(result);
+
+    if (result?.ok) {
+      setDraftLat(result.lat.toFixed(6));
+      setDraftLng(result.lng.toFixed(6));
+    }
+  };
+
   const handleManageClick = () => {
     if (!coordinatesValid || parsedLat === null || parsedLng === null) {
       return;
     }
 
-    const presetLabel = LOCATION_PRESETS.find(
+    const presetLabel = presets.find(
       (item) => item.id === selectedLocationId
     )?.label;
     const label =
@@ -625,16 +1855,99 @@ function App() {
         <span className="status-text">{statusMessage}</span>
         {position && (
           <span className="coords">
-            {position.lat.toFixed(5)}, {position.lng.toFixed(5)}
+            {formatCoordinates(position.lat, position.lng, coordinateFormat)}
           </span>
         )}
         {position && (
           <span className="accuracy">±{Math.round(position.accuracy)} m</span>
         )}
-        {insideDefaultMarker && defaultMarkerDistance !== null && (
-          <span className="default-marker-alert">
-            Near {DEFAULT_MARKER.name} (
-            {Math.max(0, Math.round(defaultMarkerDistance))} m)
+        {position?.source && (
+          <span className="location-source">
+            via {formatLocationSource(position)}
+          </span>
+        )}
+        {debugVisible && (
+          <div className="debug-info">
+            <span>
+              raw:{" "}
+              {rawPosition
+                ? `${rawPosition.lat.toFixed(5)}, ${rawPosition.lng.toFixed(
+                    5
+                  )} ±${Math.round(rawPosition.accuracy)} m`
+                : "—"}
+            </span>
+            {lastRejection && <span>rejected: {lastRejection}</span>}
+            <span>
+              spoofing flags: {spoofingSignals?.flags.join(", ") || "none"}
+            </span>
+            {pollDelay !== undefined && (
+              <span>
+                telegram poll:{" "}
+                {pollDelay === null
+                  ? "paused"
+                  : `${(pollDelay / 1000).toFixed(1)} s`}
+              </span>
+            )}
+          </div>
+        )}
+        {checkIns.map(({ geofence, state, result }) => (
+          <span key={geofence.id} className={`geofence-alert ${result.status}`}>
+            {formatCheckIn(geofence.name, state, result)}
+          </span>
+        ))}
+        {questSession && questSummary && !questSummary.outcome && (
+          <span className="quest-progress">
+            {questSummary.name}: {questSummary.completedCount}/
+            {questSummary.total}
+            {questSession.quest.ordered && questUnlockedSteps[0]
+              ? ` · next: ${
+                  geofences.find(
+                    (item) => item.id === questUnlockedSteps[0].checkpointId
+                  )?.name ?? questUnlockedSteps[0].checkpointId
+                }`
+              : ` · ${questUnlockedSteps.length} left`}
+            {questDeadline !== null &&
+              ` · ${formatDuration(
+                Math.max(questDeadline - questNow, 0) / 1000
+              )} left`}
+          </span>
+        )}
+        {navigation && (
+          <div className="nav-aid">
+            <span
+              className="nav-arrow"
+              style={{
+                transform: `rotate(${
+                  navigation.bearing - (deviceHeading ?? 0)
+                }deg)`,
+              }}
+              aria-hidden="true"
+            >
+              ▲
+            </span>
+            <span>
+              {navigation.geofence.name}:{" "}
+              {navigation.inside
+                ? "you are here"
+                : `${formatDistance(navigation.distance)} · ${Math.round(
+                    navigation.bearing
+                  )}° ${getCompassPoint(
+                    navigation.bearing
+                  )} · ETA ${formatDuration(navigation.eta)}`}
+            </span>
+            <span className="nav-heading-source">
+              {deviceHeading === null ? "map north" : "compass"}
+            </span>
+          </div>
+        )}
+        {questHints.map((step) => (
+          <span key={step.checkpointId} className="quest-hint">
+            Hint: {step.hint}
+          </span>
+        ))}
+        {geofenceToast && (
+          <span className={`geofence-toast ${geofenceToast.type}`}>
+            {formatGeofenceEvent(geofenceToast)}
           </span>
         )}
       </div>
@@ -664,6 +1977,81 @@ function App() {
           </div>
         </div>
 
+        <div className="panel-group">
+          <label className="panel-label" htmlFor="source-select">
+            Source
+          </label>
+          <select
+            id="source-select"
+            className="panel-select"
+            value={sourceMode}
+            onChange={(event) =>
+              setSourceMode(event.target.value as LocationSourceMode)
+            }
+          >
+            {(
+              Object.keys(LOCATION_SOURCE_MODE_LABELS) as LocationSourceMode[]
+            ).map((item) => (
+              <option key={item} value={item}>
+                {LOCATION_SOURCE_MODE_LABELS[item]}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="panel-group">
+          <label className="panel-label" htmlFor="smoothing-select">
+            Smoothing
+          </label>
+          <div className="mode-toggle">
+            <select
+              id="smoothing-select"
+              className="panel-select"
+              value={smoothing}
+              onChange={(event) =>
+                setSmoothing(event.target.value as FixSmoothing)
+              }
+            >
+              {(Object.keys(FIX_SMOOTHING_LABELS) as FixSmoothing[]).map(
+                (item) => (
+                  <option key={item} value={item}>
+                    {FIX_SMOOTHING_LABELS[item]}
+                  </option>
+                )
+              )}
+            </select>
+            <button
+              type="button"
+              className={
+                debugVisible ? "toggle-button active" : "toggle-button"
+              }
+              onClick={() => setDebugVisible((value) => !value)}
+            >
+              Debug
+            </button>
+          </div>
+        </div>
+
+        <div className="panel-group">
+          <label className="panel-label" htmlFor="check-in-accuracy-select">
+            Check-in accuracy
+          </label>
+          <select
+            id="check-in-accuracy-select"
+            className="panel-select"
+            value={maxCheckInAccuracy}
+            onChange={(event) =>
+              setMaxCheckInAccuracy(Number(event.target.value))
+            }
+          >
+            {CHECK_IN_ACCURACY_OPTIONS.map((meters) => (
+              <option key={meters} value={meters}>
+                Confirm at ±{meters} m or better
+              </option>
+            ))}
+          </select>
+        </div>
+
         <div className="panel-group">
           <label className="panel-label" htmlFor="location-select">
             Location
@@ -675,7 +2063,7 @@ function App() {
             onChange={handlePresetChange}
             disabled={mode !== "simulated"}
           >
-            {LOCATION_PRESETS.map((location) => (
+            {presets.map((location) => (
               <option key={location.id} value={location.id}>
                 {location.label}
               </option>
@@ -692,6 +2080,797 @@ function App() {
           Manage
         </button>
 
+        {mode === "simulated" && (
+          <div className="mode-toggle">
+            <input
+              type="text"
+              className="coord-input"
+              placeholder="Preset name"
+              value={presetName}
+              onChange={(event) => setPresetName(event.target.value)}
+            />
+            <button
+              type="button"
+              className="toggle-button"
+              disabled={!coordinatesValid || !presetName.trim()}
+              onClick={handlePresetSave}
+            >
+              Save
+            </button>
+            {customPresets.some((item) => item.id === selectedLocationId) && (
+              <button
+                type="button"
+                className="toggle-button"
+                onClick={handlePresetDelete}
+              >
+                Delete
+              </button>
+            )}
+          </div>
+        )}
+
+        {mode === "simulated" && (
+          <div className="panel-group">
+            <span className="panel-label">
+              Route
+              {route &&
+                ` · ${formatDistance(
+                  routePlayerState.distance
+                )} / ${formatDistance(routePlayerState.totalDistance)}`}
+            </span>
+            <div className="mode-toggle">
+              <label className="toggle-button file-button">
+                Load
+                <input
+                  type="file"
+                  accept=".gpx,.geojson,.json"
+                  onChange={handleRouteFileChange}
+                />
+              </label>
+              <button
+                type="button"
+                className={
+                  drawingRoute ? "toggle-button active" : "toggle-button"
+                }
+                onClick={() => {
+                  setEditingCheckpoints(false);
+                  setDrawingRoute((value) => !value);
+                }}
+              >
+                {drawingRoute ? "Done" : "Draw"}
+              </button>
+              <button
+                type="button"
+                className="toggle-button"
+                disabled={!route}
+                onClick={handleRouteClear}
+              >
+                Clear
+              </button>
+            </div>
+            {route && (
+              <>
+                <div className="mode-toggle">
+                  <button
+                    type="button"
+                    className={
+                      routePlayerState.playing
+                        ? "toggle-button active"
+                        : "toggle-button"
+                    }
+                    disabled={route.points.length < 2}
+                    onClick={() =>
+                      routePlayerState.playing
+                        ? routePlayer.pause()
+                        : routePlayer.play()
+                    }
+                  >
+                    {routePlayerState.playing ? "Pause" : "Play"}
+                  </button>
+                </div>
+                <input
+                  type="range"
+                  className="route-seek"
+                  min={0}
+                  max={Math.max(routePlayerState.totalDistance, 0)}
+                  step="any"
+                  value={routePlayerState.distance}
+                  onChange={(event) =>
+                    routePlayer.seek(Number(event.target.value))
+                  }
+                  aria-label="Route position"
+                />
+                <div className="mode-toggle">
+                  <select
+                    className="panel-select"
+                    value={routePlayerState.speed}
+                    onChange={(event) =>
+                      routePlayer.setSpeed(Number(event.target.value))
+                    }
+                    aria-label="Playback speed"
+                  >
+                    {ROUTE_SPEED_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    className="panel-select"
+                    value={routePlayerState.noise}
+                    onChange={(event) =>
+                      routePlayer.setNoise(Number(event.target.value))
+                    }
+                    aria-label="Accuracy noise"
+                  >
+                    {ROUTE_NOISE_OPTIONS.map((noise) => (
+                      <option key={noise} value={noise}>
+                        {noise === 0 ? "No noise" : `±${noise} m noise`}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        <div className="panel-group">
+          <span className="panel-label">Checkpoints</span>
+          <label className="manage-button file-button">
+            Import GeoJSON / KML / CSV
+            <input
+              type="file"
+              accept=".geojson,.json,.kml,.csv"
+              onChange={handleCheckpointFileChange}
+            />
+          </label>
+          <div className="mode-toggle">
+            <button
+              type="button"
+              className={
+                editingCheckpoints ? "toggle-button active" : "toggle-button"
+              }
+              onClick={handleCheckpointEditToggle}
+            >
+              {editingCheckpoints ? "Done" : "Edit"}
+            </button>
+            <button
+              type="button"
+              className="toggle-button"
+              disabled={geofenceHistory.past.length === 0}
+              onClick={handleCheckpointUndo}
+            >
+              Undo
+            </button>
+            <button
+              type="button"
+              className="toggle-button"
+              disabled={geofenceHistory.future.length === 0}
+              onClick={handleCheckpointRedo}
+            >
+              Redo
+            </button>
+            <button
+              type="button"
+              className="toggle-button"
+              disabled={geofences.length === 0}
+              onClick={handleCheckpointExport}
+            >
+              Export
+            </button>
+          </div>
+          {editingCheckpoints && (
+            <>
+              <select
+                className="panel-select"
+                value={selectedCheckpointId ?? ""}
+                onChange={(event) =>
+                  setSelectedCheckpointId(event.target.value || null)
+                }
+                aria-label="Checkpoint to edit"
+              >
+                <option value="">Tap the map to add a checkpoint</option>
+                {geofences.map((geofence) => (
+                  <option key={geofence.id} value={geofence.id}>
+                    {geofence.name}
+                  </option>
+                ))}
+              </select>
+              {selectedCheckpoint && (
+                <div className="mode-toggle">
+                  <input
+                    type="text"
+                    className="coord-input"
+                    placeholder="Checkpoint name"
+                    value={checkpointName}
+                    onChange={(event) => setCheckpointName(event.target.value)}
+                    onBlur={handleCheckpointRename}
+                    onKeyDown={(event) => {
+                      if (event.key === "Enter") {
+                        handleCheckpointRename();
+                      }
+                    }}
+                    aria-label="Checkpoint name"
+                  />
+                  <button
+                    type="button"
+                    className="toggle-button"
+                    onClick={handleCheckpointDelete}
+                  >
+                    Delete
+                  </button>
+                </div>
+              )}
+              <span className="editor-hint">
+                {selectedCheckpoint?.shape === "circle"
+                  ? `Radius ${Math.round(
+                      selectedCheckpoint.radius
+                    )} m · drag the centre to move, the edge handle to resize`
+                  : selectedCheckpoint
+                  ? "Drag the centre handle to move"
+                  : "Tap the map to add, tap a checkpoint to select"}
+              </span>
+            </>
+          )}
+          {importIssues.length > 0 && (
+            <ul className="import-issues">
+              {importIssues.slice(0, MAX_LISTED_IMPORT_ISSUES).map((issue) => (
+                <li key={`${issue.location}-${issue.message}`}>
+                  {issue.location}: {issue.message}
+                </li>
+              ))}
+              {importIssues.length > MAX_LISTED_IMPORT_ISSUES && (
+                <li>
+                  …and {importIssues.length - MAX_LISTED_IMPORT_ISSUES} more
+                </li>
+              )}
+            </ul>
+          )}
+        </div>
+
+        <div className="panel-group">
+          <span className="panel-label">Quest</span>
+          {!questSession && (
+            <>
+              <label className="manage-button file-button">
+                {loadedQuest ? `Quest: ${loadedQuest.name}` : "Load quest JSON"}
+                <input
+                  type="file"
+                  accept=".json"
+                  onChange={handleQuestFileChange}
+                />
+              </label>
+              {loadedQuest ? (
+                <button
+                  type="button"
+                  className="toggle-button"
+                  onClick={() => setLoadedQuest(null)}
+                >
+                  Use all checkpoints instead
+                </button>
+              ) : (
+                <div className="mode-toggle">
+                  <button
+                    type="button"
+                    className={
+                      questOrdered ? "toggle-button active" : "toggle-button"
+                    }
+                    onClick={() => setQuestOrdered((value) => !value)}
+                  >
+                    {questOrdered ? "In order" : "Any order"}
+                  </button>
+                  <select
+                    className="panel-select"
+                    value={questUnlock}
+                    onChange={(event) =>
+                      setQuestUnlock(event.target.value as QuestUnlockRule)
+                    }
+                    aria-label="Unlock next checkpoint"
+                  >
+                    {(
+                      Object.keys(QUEST_UNLOCK_RULE_LABELS) as QuestUnlockRule[]
+                    ).map((rule) => (
+                      <option key={rule} value={rule}>
+                        {QUEST_UNLOCK_RULE_LABELS[rule]}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    className="panel-select"
+                    value={questTimeLimit}
+                    onChange={(event) =>
+                      setQuestTimeLimit(Number(event.target.value))
+                    }
+                    aria-label="Time limit"
+                  >
+                    {QUEST_TIME_LIMIT_OPTIONS.map((minutes) => (
+                      <option key={minutes} value={minutes}>
+                        {minutes === 0 ? "No time limit" : `${minutes} min`}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <button
+                type="button"
+                className="manage-button"
+                disabled={!loadedQuest && geofences.length === 0}
+                onClick={handleQuestStart}
+              >
+                Start quest
+              </button>
+            </>
+          )}
+          {questSession && questSummary && !questSummary.outcome && (
+            <div className="mode-toggle">
+              <button
+                type="button"
+                className="toggle-button"
+                disabled={
+                  !questUnlockedSteps.some(
+                    (step) =>
+                      step.hint &&
+                      !questSession.progress.hintsShown.includes(
+                        step.checkpointId
+                      )
+                  )
+                }
+                onClick={handleQuestHint}
+              >
+                Show hint
+              </button>
+              <button
+                type="button"
+                className="toggle-button"
+                onClick={handleQuestAbandon}
+              >
+                Give up
+              </button>
+            </div>
+          )}
+          {questSummary?.outcome && (
+            <div className="quest-summary">
+              <strong>
+                {QUEST_OUTCOME_LABELS[questSummary.outcome]}:{" "}
+                {questSummary.name}
+              </strong>
+              <span>
+                {questSummary.completedCount}/{questSummary.total} checkpoints
+                in {formatDuration(questSummary.elapsed / 1000)}
+                {questSummary.hintsUsed > 0 &&
+                  `, ${questSummary.hintsUsed} hint(s) used`}
+              </span>
+              <ol>
+                {questSummary.steps.map((step) => (
+                  <li key={step.checkpointId}>
+                    {step.name}
+                    {step.split === null
+                      ? " — not reached"
+                      : ` — +${formatDuration(step.split / 1000)}`}
+                    {step.hintShown && " (hint)"}
+                  </li>
+                ))}
+              </ol>
+              <button
+                type="button"
+                className="toggle-button"
+                onClick={handleQuestDismiss}
+              >
+                Close
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="panel-group">
+          <label className="panel-label" htmlFor="navigation-select">
+            Navigate to
+          </label>
+          <div className="mode-toggle">
+            <select
+              id="navigation-select"
+              className="panel-select"
+              value={navigationTargetId ?? ""}
+              onChange={(event) =>
+                setNavigationTargetId(event.target.value || null)
+              }
+            >
+              <option value="">
+                {questUnlockedSteps.length > 0
+                  ? "Next quest checkpoint"
+                  : "Nearest checkpoint"}
+              </option>
+              {geofences.map((geofence) => (
+                <option key={geofence.id} value={geofence.id}>
+                  {geofence.name}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              className={
+                compassSource ? "toggle-button active" : "toggle-button"
+              }
+              onClick={handleCompassToggle}
+            >
+              Compass
+            </button>
+          </div>
+        </div>
+
+        <div className="panel-group">
+          <span className="panel-label">Live sharing</span>
+          <div className="mode-toggle">
+            <input
+              type="text"
+              className="coord-input"
+              placeholder="Your name"
+              maxLength={64}
+              value={sharingName}
+              onChange={(event) => setSharingName(event.target.value)}
+              disabled={joinedRoom !== null}
+              aria-label="Name shown to others"
+            />
+            <input
+              type="text"
+              className="coord-input"
+              placeholder="Room"
+              maxLength={64}
+              value={sharingRoom}
+              onChange={(event) => setSharingRoom(event.target.value)}
+              onKeyDown={(event) => {
+                if (event.key === "Enter" && !joinedRoom) {
+                  handleSharingToggle();
+                }
+              }}
+              disabled={joinedRoom !== null}
+              aria-label="Room"
+            />
+            <button
+              type="button"
+              className={joinedRoom ? "toggle-button active" : "toggle-button"}
+              onClick={handleSharingToggle}
+            >
+              {joinedRoom ? "Leave" : "Join"}
+            </button>
+          </div>
+          {joinedRoom && (
+            <span className="track-stats">
+              {SHARING_STATUS_LABELS[sharingStatus]} · {joinedRoom} ·{" "}
+              {peerList.length} other(s)
+            </span>
+          )}
+          {peerList.length > 0 && (
+            <ul className="peer-list">
+              {peerList.map((peer) => (
+                <li
+                  key={peer.id}
+                  className={isPeerStale(peer, sharingNow) ? "stale" : ""}
+                >
+                  <button
+                    type="button"
+                    className="peer-name"
+                    onClick={() => handlePeerFocus(peer)}
+                  >
+                    {peer.name}
+                  </button>
+                  <span>
+                    ±{Math.round(peer.position.accuracy)} m ·{" "}
+                    {formatDuration(
+                      Math.max(sharingNow - peer.updatedAt, 0) / 1000
+                    )}{" "}
+                    ago
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {isTileCacheSupported() && (
+          <div className="panel-group">
+            <span className="panel-label">Offline map</span>
+            <div className="mode-toggle">
+              <select
+                className="panel-select"
+                value={tileCacheMaxZoom}
+                onChange={(event) =>
+                  setTileCacheMaxZoom(Number(event.target.value))
+                }
+                aria-label="Download up to zoom"
+              >
+                {TILE_CACHE_MAX_ZOOM_OPTIONS.map((zoom) => (
+                  <option key={zoom} value={zoom}>
+                    Up to z{zoom}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                className={
+                  tileDownload ? "toggle-button active" : "toggle-button"
+                }
+                disabled={
+                  !tileDownload &&
+                  (tileDownloadCount === 0 ||
+                    tileDownloadCount > MAX_PREFETCH_TILES ||
+                    (tileCacheStats !== null &&
+                      tileDownloadBytes > tileCacheStats.quotaBytes))
+                }
+                onClick={handleTileDownload}
+              >
+                {tileDownload
+                  ? `Stop ${tileDownload.done}/${tileDownload.total}`
+                  : "Download area"}
+              </button>
+            </div>
+            <span className="track-stats">
+              {tileDownloadCount > MAX_PREFETCH_TILES
+                ? `${tileDownloadCount} tiles — zoom in or lower the max zoom`
+                : `~${tileDownloadCount} tiles, ~${formatBytes(
+                    tileDownloadBytes
+                  )}`}
+            </span>
+            {tileCacheStats && (
+              <div className="mode-toggle">
+                <span className="track-stats">
+                  Cached {tileCacheStats.count} tiles,{" "}
+                  {formatBytes(tileCacheStats.bytes)}
+                </span>
+                <select
+                  className="panel-select"
+                  value={Math.round(tileCacheStats.quotaBytes / MEGABYTE)}
+                  onChange={handleTileQuotaChange}
+                  aria-label="Tile cache quota"
+                >
+                  {TILE_CACHE_QUOTA_OPTIONS_MB.map((megabytes) => (
+                    <option key={megabytes} value={megabytes}>
+                      Max {megabytes} MB
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  className="toggle-button"
+                  disabled={tileCacheStats.count === 0}
+                  onClick={handleTileCacheClear}
+                >
+                  Clear
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="panel-group">
+          <span className="panel-label">Track</span>
+          <div className="mode-toggle">
+            <button
+              type="button"
+              className={recording ? "toggle-button active" : "toggle-button"}
+              onClick={handleRecordingToggle}
+            >
+              {recording ? "Stop" : "Record"}
+            </button>
+            <button
+              type="button"
+              className="toggle-button"
+              disabled={trackPoints.length < 2}
+              onClick={() => handleTrackExport("gpx")}
+            >
+              GPX
+            </button>
+            <button
+              type="button"
+              className="toggle-button"
+              disabled={trackPoints.length < 2}
+              onClick={() => handleTrackExport("geojson")}
+            >
+              GeoJSON
+            </button>
+          </div>
+          {trackPoints.length > 0 && (
+            <span className="track-stats">
+              {trackPoints.length} pts · {formatDistance(trackStats.distance)} ·{" "}
+              {formatDuration(trackStats.duration)} ·{" "}
+              {(trackStats.averageSpeed * 3.6).toFixed(1)} km/h
+            </span>
+          )}
+        </div>
+
+        {historyStore && (
+          <div className="panel-group">
+            <span className="panel-label">History</span>
+            <div className="mode-toggle">
+              <button
+                type="button"
+                className={
+                  timelineOpen ? "toggle-button active" : "toggle-button"
+                }
+                onClick={handleTimelineToggle}
+              >
+                Timeline
+              </button>
+              <button
+                type="button"
+                className={
+                  heatmapVisible ? "toggle-button active" : "toggle-button"
+                }
+                onClick={() => setHeatmapVisible(!heatmapVisible)}
+              >
+                Heatmap
+              </button>
+              <select
+                className="panel-select"
+                aria-label="Keep history for"
+                value={historyRetentionDays}
+                onChange={(event) =>
+                  setHistoryRetentionDays(Number(event.target.value))
+                }
+              >
+                {HISTORY_RETENTION_OPTIONS.map((days) => (
+                  <option key={days} value={days}>
+                    Keep {days} {days === 1 ? "day" : "days"}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {timelineOpen && (
+              <>
+                <input
+                  type="date"
+                  className="coord-input"
+                  value={historyDay}
+                  max={toDayString(Date.now())}
+                  onChange={(event) => {
+                    setHistoryPlaying(false);
+                    setHistoryDay(event.target.value);
+                  }}
+                  aria-label="Day"
+                />
+                {historyFixes.length === 0 || historyEnd === null ? (
+                  <span className="track-stats">No positions on this day</span>
+                ) : (
+                  <>
+                    <input
+                      type="range"
+                      className="route-seek"
+                      min={historyFixes[0].timestamp}
+                      max={historyEnd}
+                      step={1000}
+                      value={historyTime ?? historyEnd}
+                      onChange={(event) =>
+                        setHistoryTime(Number(event.target.value))
+                      }
+                      aria-label="Timeline position"
+                    />
+                    <span className="track-stats">
+                      {formatClock(historyTime ?? historyEnd)} ·{" "}
+                      {historyFixes.length} fixes
+                      {historyEventAtTime &&
+                        ` · ${HISTORY_EVENT_LABELS[historyEventAtTime.type]} ${
+                          historyEventAtTime.checkpointName
+                        } at ${formatClock(historyEventAtTime.timestamp)}`}
+                    </span>
+                    <div className="mode-toggle">
+                      <button
+                        type="button"
+                        className={
+                          historyPlaying
+                            ? "toggle-button active"
+                            : "toggle-button"
+                        }
+                        onClick={handleHistoryPlayToggle}
+                      >
+                        {historyPlaying ? "Pause" : "Replay"}
+                      </button>
+                      <select
+                        className="panel-select"
+                        aria-label="Replay speed"
+                        value={historySpeed}
+                        onChange={(event) =>
+                          setHistorySpeed(Number(event.target.value))
+                        }
+                      >
+                        {HISTORY_PLAYBACK_SPEEDS.map((speed) => (
+                          <option key={speed} value={speed}>
+                            {speed}×
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  </>
+                )}
+                {checkpointStats.length > 0 && (
+                  <ul className="history-stats">
+                    {checkpointStats.map((stats) => (
+                      <li key={stats.checkpointId}>
+                        <span>{stats.name}</span>
+                        <span>
+                          {stats.visits}{" "}
+                          {stats.visits === 1 ? "visit" : "visits"} ·{" "}
+                          {formatDwellTime(stats.dwellTime)}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <button
+                  type="button"
+                  className="toggle-button"
+                  onClick={handleHistoryClear}
+                >
+                  Clear history
+                </button>
+              </>
+            )}
+          </div>
+        )}
+
+        <button
+          type="button"
+          className="manage-button"
+          onClick={handleShareView}
+        >
+          Share this view
+        </button>
+
+        <div className="panel-group">
+          <label className="panel-label" htmlFor="coordinate-input">
+            Coordinates
+          </label>
+          <input
+            id="coordinate-input"
+            type="text"
+            className={`coord-input${
+              coordinateResult && !coordinateResult.ok ? " invalid" : ""
+            }`}
+            placeholder="Paste coordinates, map link, Plus Code, UTM…"
+            value={coordinateInput}
+            onChange={(event) =>
+              handleCoordinateInputChange(event.target.value)
+            }
+            onKeyDown={(event) => {
+              if (event.key === "Enter") {
+                handleManageClick();
+              }
+            }}
+            disabled={mode !== "simulated"}
+          />
+          {coordinateResult && (
+            <span
+              className={`coord-feedback${
+                coordinateResult.ok ? "" : " invalid"
+              }`}
+            >
+              {coordinateResult.format
+                ? COORDINATE_FORMAT_LABELS[coordinateResult.format]
+                : "Coordinates"}
+              :{" "}
+              {coordinateResult.ok
+                ? `${coordinateResult.lat.toFixed(
+                    6
+                  )}, ${coordinateResult.lng.toFixed(6)}`
+                : coordinateResult.error}
+            </span>
+          )}
+          <select
+            className="panel-select"
+            aria-label="Coordinate display format"
+            value={coordinateFormat}
+            onChange={(event) =>
+              setCoordinateFormat(event.target.value as CoordinateDisplayFormat)
+            }
+          >
+            {COORDINATE_DISPLAY_FORMATS.map((item) => (
+              <option key={item} value={item}>
+                Show as {COORDINATE_FORMAT_LABELS[item]}
+              </option>
+            ))}
+          </select>
+        </div>
+
         <div className="coordinates-grid">
           <div className="coordinate-field">
             <input
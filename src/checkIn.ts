@@ -0,0 +1,121 @@
+import type { Geofence, GeofenceState } from "./geofences";
+
+export type CheckInStatus = "confirmed" | "possible" | "outside";
+
+export type CheckInOptions = {
+  /** Worst reported accuracy (meters) that may still produce a confirmed check-in. */
+  maxConfirmedAccuracy: number;
+  /** Share of the accuracy circle that must lie inside the fence to confirm. */
+  confirmedOverlap: number;
+  /** Share of the accuracy circle inside the fence that counts as possible. */
+  possibleOverlap: number;
+};
+
+export type CheckInResult = {
+  id: string;
+  status: CheckInStatus;
+  /** Fraction (0–1) of the accuracy circle that lies inside the fence. */
+  overlap: number;
+  /** Human-readable explanations for a "possible" outcome. */
+  reasons: string[];
+};
+
+export const DEFAULT_CHECK_IN_OPTIONS: CheckInOptions = {
+  maxConfirmedAccuracy: 25,
+  confirmedOverlap: 0.8,
+  possibleOverlap: 0.1,
+};
+
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1);
+
+const getCircleIntersectionFraction = (
+  accuracy: number,
+  radius: number,
+  distance: number
+) => {
+  if (distance >= accuracy + radius) {
+    return 0;
+  }
+
+  if (distance <= Math.abs(radius - accuracy)) {
+    return radius >= accuracy ? 1 : (radius * radius) / (accuracy * accuracy);
+  }
+
+  const r1 = accuracy;
+  const r2 = radius;
+  const d = distance;
+  const area =
+    r1 * r1 * Math.acos((d * d + r1 * r1 - r2 * r2) / (2 * d * r1)) +
+    r2 * r2 * Math.acos((d * d + r2 * r2 - r1 * r1) / (2 * d * r2)) -
+    0.5 *
+      Math.sqrt((-d + r1 + r2) * (d + r1 - r2) * (d - r1 + r2) * (d + r1 + r2));
+
+  return clamp01(area / (Math.PI * r1 * r1));
+};
+
+// Treats the nearest fence edge as a straight line, which holds while the
+// accuracy circle is small compared to the polygon or corridor.
+const getHalfPlaneFraction = (accuracy: number, boundaryDistance: number) => {
+  if (boundaryDistance >= accuracy) {
+    return 0;
+  }
+
+  if (boundaryDistance <= -accuracy) {
+    return 1;
+  }
+
+  const offset = Math.abs(boundaryDistance);
+  const segment =
+    accuracy * accuracy * Math.acos(offset / accuracy) -
+    offset * Math.sqrt(accuracy * accuracy - offset * offset);
+  const fraction = segment / (Math.PI * accuracy * accuracy);
+
+  return boundaryDistance > 0 ? fraction : 1 - fraction;
+};
+
+export const getAccuracyOverlap = (
+  geofence: Geofence,
+  state: GeofenceState,
+  accuracy: number
+) =>
+  geofence.shape === "circle"
+    ? getCircleIntersectionFraction(accuracy, geofence.radius, state.distance)
+    : getHalfPlaneFraction(accuracy, state.boundaryDistance);
+
+export const evaluateCheckIn = (
+  geofence: Geofence,
+  state: GeofenceState,
+  accuracy: number,
+  options: CheckInOptions = DEFAULT_CHECK_IN_OPTIONS
+): CheckInResult => {
+  const overlap = getAccuracyOverlap(geofence, state, accuracy);
+  const accuracyOk = accuracy <= options.maxConfirmedAccuracy;
+  const overlapOk = overlap >= options.confirmedOverlap;
+
+  if (state.inside && accuracyOk && overlapOk) {
+    return { id: geofence.id, status: "confirmed", overlap, reasons: [] };
+  }
+
+  if (!state.inside && overlap < options.possibleOverlap) {
+    return { id: geofence.id, status: "outside", overlap, reasons: [] };
+  }
+
+  const reasons: string[] = [];
+  if (!state.inside) {
+    reasons.push("position is outside the fence");
+  }
+  if (!accuracyOk) {
+    reasons.push(
+      `accuracy ±${Math.round(accuracy)} m exceeds ±${
+        options.maxConfirmedAccuracy
+      } m`
+    );
+  }
+  if (!overlapOk) {
+    reasons.push(
+      `only ${Math.round(overlap * 100)}% of the accuracy circle overlaps`
+    );
+  }
+
+  return { id: geofence.id, status: "possible", overlap, reasons };
+};
@@ -0,0 +1,150 @@
+import { getDistanceInMeters } from "./geo";
+import type { LocationSourceId } from "./location/types";
+
+/** Faster than any ground travel (~300 km/h) between consecutive fixes. */
+export const IMPOSSIBLE_SPEED = 85;
+/** Consumer GNSS rarely reports better than this; mock apps often do. */
+export const SUSPICIOUS_ACCURACY = 2;
+/** Identical accuracy this many fixes in a row suggests a synthetic source. */
+export const CONSTANT_ACCURACY_RUN = 4;
+/** Fixes carried in each check-in so a server can recompute the signals. */
+export const FIX_TRAIL_LENGTH = 8;
+
+/** Sources whose fixes did not come from a real device. */
+const SIMULATED_SOURCES: ReadonlySet<LocationSourceId> = new Set([
+  "simulated",
+  "scripted",
+]);
+
+export const isSimulatedSource = (source: LocationSourceId | undefined) =>
+  source ? SIMULATED_SOURCES.has(source) : false;
+
+export type FixSample = {
+  lat: number;
+  lng: number;
+  accuracy: number;
+  timestamp: number;
+  source: LocationSourceId | "unknown";
+};
+
+export type SpoofingSignals = {
+  source: LocationSourceId | "unknown";
+  simulated: boolean;
+  /** Fastest movement between consecutive trail fixes in m/s, if measurable. */
+  maxSpeed: number | null;
+  impossibleJump: boolean;
+  suspiciousAccuracy: boolean;
+  /** Milliseconds since the last fix from a real device; null if none yet. */
+  sinceLastRealFix: number | null;
+  /** Short machine-readable reasons, empty when nothing looks off. */
+  flags: string[];
+};
+
+export type FixTrail = {
+  push: (sample: FixSample) => void;
+  getSamples: () => FixSample[];
+  /** Drops the samples but remembers when the last real fix arrived. */
+  clearSamples: () => void;
+  /** Timestamp of the latest non-simulated fix, kept beyond the trail. */
+  getLastRealFixAt: () => number | null;
+};
+
+export const createFixTrail = (length = FIX_TRAIL_LENGTH): FixTrail => {
+  let samples: FixSample[] = [];
+  let lastRealFixAt: number | null = null;
+
+  return {
+    push: (sample) => {
+      samples = [
+        ...samples,
+        {
+          ...sample,
+          lat: Number(sample.lat.toFixed(6)),
+          lng: Number(sample.lng.toFixed(6)),
+          accuracy: Math.round(sample.accuracy * 10) / 10,
+        },
+      ].slice(-length);
+      if (sample.source !== "unknown" && !isSimulatedSource(sample.source)) {
+        lastRealFixAt = sample.timestamp;
+      }
+    },
+    getSamples: () => samples,
+    clearSamples: () => {
+      samples = [];
+    },
+    getLastRealFixAt: () => lastRealFixAt,
+  };
+};
+
+const getMaxSpeed = (samples: FixSample[]) => {
+  let maxSpeed: number | null = null;
+
+  for (let index = 1; index < samples.length; index += 1) {
+    const previous = samples[index - 1];
+    const current = samples[index];
+    const seconds = (current.timestamp - previous.timestamp) / 1000;
+    if (seconds <= 0) {
+      continue;
+    }
+
+    const speed =
+      getDistanceInMeters(
+        previous.lat,
+        previous.lng,
+        current.lat,
+        current.lng
+      ) / seconds;
+    maxSpeed = Math.max(maxSpeed ?? 0, speed);
+  }
+
+  return maxSpeed;
+};
+
+const hasConstantAccuracyRun = (samples: FixSample[]) => {
+  let run = 1;
+  for (let index = 1; index < samples.length; index += 1) {
+    run = samples[index].accuracy === samples[index - 1].accuracy ? run + 1 : 1;
+    if (run >= CONSTANT_ACCURACY_RUN) {
+      return true;
+    }
+  }
+  return false;
+};
+
+/**
+ * Derives the anti-spoofing signals attached to a check-in. These are hints
+ * for the server, which should recompute them from the trail rather than
+ * trust the client's verdict.
+ */
+export const computeSpoofingSignals = (
+  samples: FixSample[],
+  lastRealFixAt: number | null,
+  now = Date.now()
+): SpoofingSignals => {
+  const latest = samples[samples.length - 1];
+  const source = latest?.source ?? "unknown";
+  const simulated = source !== "unknown" && isSimulatedSource(source);
+  const maxSpeed = getMaxSpeed(samples);
+  const impossibleJump = maxSpeed !== null && maxSpeed > IMPOSSIBLE_SPEED;
+  const suspiciousAccuracy =
+    (latest !== undefined && latest.accuracy < SUSPICIOUS_ACCURACY) ||
+    hasConstantAccuracyRun(samples);
+
+  const flags = [
+    simulated && "simulated_source",
+    source === "unknown" && "unknown_source",
+    impossibleJump && "impossible_speed",
+    suspiciousAccuracy && "suspicious_accuracy",
+    lastRealFixAt === null && "no_real_fix",
+  ].filter((flag): flag is string => Boolean(flag));
+
+  return {
+    source,
+    simulated,
+    maxSpeed: maxSpeed === null ? null : Math.round(maxSpeed * 10) / 10,
+    impossibleJump,
+    suspiciousAccuracy,
+    sinceLastRealFix: lastRealFixAt === null ? null : now - lastRealFixAt,
+    flags,
+  };
+};
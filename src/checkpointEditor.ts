@@ -0,0 +1,108 @@
+import L from "leaflet";
+import { getDistanceInMeters, offsetLatLng, type LatLngLiteral } from "./geo";
+import { getGeofenceAnchor, type Geofence } from "./geofences";
+
+export const MIN_CHECKPOINT_RADIUS = 5;
+
+export type CheckpointHandleCallbacks = {
+  onSelect: () => void;
+  /** Called on every drag step with the would-be checkpoint. */
+  onPreview: (geofence: Geofence) => void;
+  /** Called once when a drag ends. */
+  onChange: (geofence: Geofence) => void;
+};
+
+/** Moves a checkpoint so that its anchor lands on `target`. */
+export const moveGeofence = (
+  geofence: Geofence,
+  target: LatLngLiteral
+): Geofence => {
+  const anchor = getGeofenceAnchor(geofence);
+  const shift = (point: LatLngLiteral) => ({
+    lat: point.lat + target.lat - anchor.lat,
+    lng: point.lng + target.lng - anchor.lng,
+  });
+
+  switch (geofence.shape) {
+    case "circle":
+      return { ...geofence, center: target };
+    case "polygon":
+      return { ...geofence, points: geofence.points.map(shift) };
+    case "corridor":
+      return { ...geofence, path: geofence.path.map(shift) };
+  }
+};
+
+const createHandleIcon = (className: string) =>
+  L.divIcon({
+    className: `editor-handle ${className}`,
+    iconSize: [18, 18],
+    iconAnchor: [9, 9],
+  });
+
+const getRadiusHandlePosition = (center: LatLngLiteral, radius: number) =>
+  offsetLatLng(center, 0, radius);
+
+/**
+ * Builds draggable handles for one checkpoint: a centre handle that moves it
+ * and, for selected circles, an edge handle that sets the radius. The caller
+ * adds the returned markers to the map and removes them when done.
+ */
+export const createCheckpointHandles = (
+  geofence: Geofence,
+  selected: boolean,
+  { onSelect, onPreview, onChange }: CheckpointHandleCallbacks
+): L.Marker[] => {
+  let current = geofence;
+  const anchor = getGeofenceAnchor(geofence);
+  const centerHandle = L.marker([anchor.lat, anchor.lng], {
+    draggable: true,
+    icon: createHandleIcon(selected ? "center selected" : "center"),
+    zIndexOffset: 1000,
+    title: `Move ${geofence.name}`,
+  });
+
+  const radiusHandle =
+    selected && geofence.shape === "circle"
+      ? L.marker(getRadiusHandlePosition(geofence.center, geofence.radius), {
+          draggable: true,
+          icon: createHandleIcon("radius"),
+          zIndexOffset: 1000,
+          title: "Drag to resize",
+        })
+      : null;
+
+  centerHandle.on("click", onSelect);
+  centerHandle.on("dragstart", onSelect);
+  centerHandle.on("drag", () => {
+    const { lat, lng } = centerHandle.getLatLng();
+    current = moveGeofence(geofence, { lat, lng });
+    if (radiusHandle && current.shape === "circle") {
+      radiusHandle.setLatLng(
+        getRadiusHandlePosition(current.center, current.radius)
+      );
+    }
+    onPreview(current);
+  });
+  centerHandle.on("dragend", () => onChange(current));
+
+  radiusHandle?.on("drag", () => {
+    if (current.shape !== "circle") {
+      return;
+    }
+    const { lat, lng } = radiusHandle.getLatLng();
+    current = {
+      ...current,
+      radius: Math.max(
+        Math.round(
+          getDistanceInMeters(current.center.lat, current.center.lng, lat, lng)
+        ),
+        MIN_CHECKPOINT_RADIUS
+      ),
+    };
+    onPreview(current);
+  });
+  radiusHandle?.on("dragend", () => onChange(current));
+
+  return radiusHandle ? [centerHandle, radiusHandle] : [centerHandle];
+};
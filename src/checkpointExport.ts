@@ -0,0 +1,45 @@
+import type { LatLngLiteral } from "./geo";
+import type { Geofence } from "./geofences";
+
+const toPosition = ({ lat, lng }: LatLngLiteral) => [lng, lat];
+
+const toGeometry = (geofence: Geofence) => {
+  switch (geofence.shape) {
+    case "circle":
+      return { type: "Point", coordinates: toPosition(geofence.center) };
+    case "polygon": {
+      const ring = geofence.points.map(toPosition);
+      return { type: "Polygon", coordinates: [[...ring, ring[0]]] };
+    }
+    case "corridor":
+      return {
+        type: "LineString",
+        coordinates: geofence.path.map(toPosition),
+      };
+  }
+};
+
+/**
+ * Serialises checkpoints as a GeoJSON FeatureCollection that
+ * `parseCheckpointFile` reads back: circles become Points with a `radius`
+ * property and corridors LineStrings with a `width`.
+ */
+export const toCheckpointGeoJson = (geofences: Geofence[]) =>
+  JSON.stringify(
+    {
+      type: "FeatureCollection",
+      features: geofences.map((geofence) => ({
+        type: "Feature",
+        properties: {
+          id: geofence.id,
+          name: geofence.name,
+          ...(geofence.shape === "circle" && { radius: geofence.radius }),
+          ...(geofence.shape === "corridor" && { width: geofence.width }),
+          ...(geofence.style && { style: geofence.style }),
+        },
+        geometry: toGeometry(geofence),
+      })),
+    },
+    null,
+    2
+  );
@@ -0,0 +1,442 @@
+import { isValidLatitude, isValidLongitude, type LatLngLiteral } from "./geo";
+import { getGeofenceAnchor, type Geofence } from "./geofences";
+import type { LocationPreset } from "./presets";
+
+export type ImportIssue = {
+  /** Where the problem is, e.g. "Row 4" or "Placemark 2". */
+  location: string;
+  message: string;
+};
+
+export type CheckpointImportResult = {
+  geofences: Geofence[];
+  presets: LocationPreset[];
+  issues: ImportIssue[];
+};
+
+export const DEFAULT_IMPORT_RADIUS = 20;
+export const DEFAULT_IMPORT_CORRIDOR_WIDTH = 10;
+
+type Draft =
+  | { shape: "circle"; center: LatLngLiteral; radius: number }
+  | { shape: "polygon"; points: LatLngLiteral[] }
+  | { shape: "corridor"; path: LatLngLiteral[]; width: number };
+
+type DraftRow = {
+  location: string;
+  name: string;
+  draft: Draft;
+};
+
+class ImportRowError extends Error {}
+
+const parseCoordinate = (lat: unknown, lng: unknown): LatLngLiteral => {
+  const parsedLat = typeof lat === "string" && !lat.trim() ? NaN : Number(lat);
+  const parsedLng = typeof lng === "string" && !lng.trim() ? NaN : Number(lng);
+
+  if (!Number.isFinite(parsedLat) || !isValidLatitude(parsedLat)) {
+    throw new ImportRowError(
+      `latitude "${String(lat)}" must be a number between -90 and 90`
+    );
+  }
+
+  if (!Number.isFinite(parsedLng) || !isValidLongitude(parsedLng)) {
+    throw new ImportRowError(
+      `longitude "${String(lng)}" must be a number between -180 and 180`
+    );
+  }
+
+  return { lat: parsedLat, lng: parsedLng };
+};
+
+const parseDistance = (value: unknown, label: string, fallback: number) => {
+  if (value === undefined || value === null || value === "") {
+    return fallback;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new ImportRowError(
+      `${label} "${String(value)}" must be a positive number of meters`
+    );
+  }
+
+  return parsed;
+};
+
+const dropClosingPoint = (points: LatLngLiteral[]) => {
+  const first = points[0];
+  const last = points[points.length - 1];
+  return points.length > 1 && first.lat === last.lat && first.lng === last.lng
+    ? points.slice(0, -1)
+    : points;
+};
+
+const slugify = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "") || "checkpoint";
+
+const splitCsvLine = (line: string) => {
+  const cells: string[] = [];
+  let current = "";
+  let quoted = false;
+
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index];
+
+    if (quoted) {
+      if (char === '"' && line[index + 1] === '"') {
+        current += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === "," || char === ";") {
+      cells.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+
+  cells.push(current.trim());
+  return cells;
+};
+
+const CSV_COLUMN_ALIASES: Record<string, string> = {
+  name: "name",
+  title: "name",
+  label: "name",
+  lat: "lat",
+  latitude: "lat",
+  lng: "lng",
+  lon: "lng",
+  long: "lng",
+  longitude: "lng",
+  radius: "radius",
+};
+
+const parseCsv = (text: string, issues: ImportIssue[]): DraftRow[] => {
+  const lines = text.split(/\r?\n/);
+  const firstRow = splitCsvLine(lines[0] ?? "").map((cell) =>
+    cell.toLowerCase()
+  );
+  const hasHeader = firstRow.some((cell) => cell in CSV_COLUMN_ALIASES);
+  const columns = hasHeader
+    ? firstRow.map((cell) => CSV_COLUMN_ALIASES[cell] ?? cell)
+    : ["name", "lat", "lng", "radius"];
+
+  if (hasHeader && !(columns.includes("lat") && columns.includes("lng"))) {
+    issues.push({
+      location: "Header",
+      message: "CSV header must include lat and lng columns",
+    });
+    return [];
+  }
+
+  const rows: DraftRow[] = [];
+  lines.forEach((line, index) => {
+    if ((hasHeader && index === 0) || !line.trim()) {
+      return;
+    }
+
+    const location = `Row ${index + 1}`;
+    const cells = splitCsvLine(line);
+    const record = Object.fromEntries(
+      columns.map((column, columnIndex) => [column, cells[columnIndex]])
+    );
+
+    try {
+      rows.push({
+        location,
+        name: record.name || `Checkpoint ${index + 1}`,
+        draft: {
+          shape: "circle",
+          center: parseCoordinate(record.lat, record.lng),
+          radius: parseDistance(record.radius, "radius", DEFAULT_IMPORT_RADIUS),
+        },
+      });
+    } catch (error) {
+      if (!(error instanceof ImportRowError)) {
+        throw error;
+      }
+      issues.push({ location, message: error.message });
+    }
+  });
+
+  return rows;
+};
+
+type GeoJsonFeature = {
+  type?: string;
+  properties?: Record<string, unknown> | null;
+  geometry?: { type?: string; coordinates?: unknown } | null;
+};
+
+const toCoordinateList = (value: unknown): LatLngLiteral[] => {
+  if (!Array.isArray(value)) {
+    throw new ImportRowError("coordinates must be an array");
+  }
+
+  return value.map((coordinate) => {
+    if (!Array.isArray(coordinate)) {
+      throw new ImportRowError("coordinates must be [lng, lat] pairs");
+    }
+    return parseCoordinate(coordinate[1], coordinate[0]);
+  });
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const parseGeoJsonFeature = (feature: GeoJsonFeature): Draft => {
+  if (!isObject(feature)) {
+    throw new ImportRowError("feature must be an object");
+  }
+
+  const properties = isObject(feature.properties) ? feature.properties : {};
+  const geometry = feature.geometry;
+
+  switch (geometry?.type) {
+    case "Point": {
+      const [center] = toCoordinateList([geometry.coordinates]);
+      return {
+        shape: "circle",
+        center,
+        radius: parseDistance(
+          properties.radius,
+          "radius",
+          DEFAULT_IMPORT_RADIUS
+        ),
+      };
+    }
+    case "Polygon": {
+      const [outerRing] = Array.isArray(geometry.coordinates)
+        ? geometry.coordinates
+        : [];
+      const points = dropClosingPoint(toCoordinateList(outerRing));
+      if (points.length < 3) {
+        throw new ImportRowError("polygon needs at least 3 points");
+      }
+      return { shape: "polygon", points };
+    }
+    case "LineString": {
+      const path = toCoordinateList(geometry.coordinates);
+      if (path.length < 2) {
+        throw new ImportRowError("line needs at least 2 points");
+      }
+      return {
+        shape: "corridor",
+        path,
+        width: parseDistance(
+          properties.width ?? properties.radius,
+          "width",
+          DEFAULT_IMPORT_CORRIDOR_WIDTH
+        ),
+      };
+    }
+    default:
+      throw new ImportRowError(
+        `unsupported geometry type "${geometry?.type ?? "none"}"`
+      );
+  }
+};
+
+const parseGeoJson = (text: string, issues: ImportIssue[]): DraftRow[] => {
+  let data: { type?: string; features?: unknown } & GeoJsonFeature;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    issues.push({ location: "File", message: "not valid JSON" });
+    return [];
+  }
+
+  if (!isObject(data)) {
+    issues.push({ location: "File", message: "expected a GeoJSON object" });
+    return [];
+  }
+  if (data.type === "FeatureCollection" && !Array.isArray(data.features)) {
+    issues.push({
+      location: "File",
+      message: "FeatureCollection features must be an array",
+    });
+    return [];
+  }
+
+  const features: GeoJsonFeature[] =
+    data.type === "FeatureCollection"
+      ? (data.features as GeoJsonFeature[])
+      : data.type === "Feature"
+      ? [data]
+      : [];
+
+  if (features.length === 0) {
+    issues.push({
+      location: "File",
+      message: "expected a GeoJSON Feature or FeatureCollection",
+    });
+  }
+
+  const rows: DraftRow[] = [];
+  features.forEach((feature, index) => {
+    const location = `Feature ${index + 1}`;
+    const name = isObject(feature) ? feature.properties?.name : undefined;
+
+    try {
+      rows.push({
+        location,
+        name:
+          typeof name === "string" && name ? name : `Checkpoint ${index + 1}`,
+        draft: parseGeoJsonFeature(feature),
+      });
+    } catch (error) {
+      if (!(error instanceof ImportRowError)) {
+        throw error;
+      }
+      issues.push({ location, message: error.message });
+    }
+  });
+
+  return rows;
+};
+
+const parseKmlCoordinates = (value: string | null | undefined) =>
+  (value ?? "")
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((tuple) => {
+      const [lng, lat] = tuple.split(",");
+      return parseCoordinate(lat, lng);
+    });
+
+const parseKmlPlacemark = (placemark: Element): Draft => {
+  const radius = placemark.querySelector(
+    'ExtendedData Data[name="radius"] value'
+  )?.textContent;
+  const width = placemark.querySelector(
+    'ExtendedData Data[name="width"] value'
+  )?.textContent;
+
+  const point = placemark.querySelector("Point coordinates");
+  if (point) {
+    const [center] = parseKmlCoordinates(point.textContent);
+    if (!center) {
+      throw new ImportRowError("point has no coordinates");
+    }
+    return {
+      shape: "circle",
+      center,
+      radius: parseDistance(radius, "radius", DEFAULT_IMPORT_RADIUS),
+    };
+  }
+
+  const ring = placemark.querySelector(
+    "Polygon outerBoundaryIs LinearRing coordinates"
+  );
+  if (ring) {
+    const points = dropClosingPoint(parseKmlCoordinates(ring.textContent));
+    if (points.length < 3) {
+      throw new ImportRowError("polygon needs at least 3 points");
+    }
+    return { shape: "polygon", points };
+  }
+
+  const line = placemark.querySelector("LineString coordinates");
+  if (line) {
+    const path = parseKmlCoordinates(line.textContent);
+    if (path.length < 2) {
+      throw new ImportRowError("line needs at least 2 points");
+    }
+    return {
+      shape: "corridor",
+      path,
+      width: parseDistance(width, "width", DEFAULT_IMPORT_CORRIDOR_WIDTH),
+    };
+  }
+
+  throw new ImportRowError("placemark has no Point, Polygon or LineString");
+};
+
+const parseKml = (text: string, issues: ImportIssue[]): DraftRow[] => {
+  const xml = new DOMParser().parseFromString(text, "application/xml");
+  if (xml.getElementsByTagName("parsererror").length > 0) {
+    issues.push({ location: "File", message: "not valid KML/XML" });
+    return [];
+  }
+
+  const rows: DraftRow[] = [];
+  Array.from(xml.getElementsByTagName("Placemark")).forEach(
+    (placemark, index) => {
+      const location = `Placemark ${index + 1}`;
+      const name = placemark
+        .getElementsByTagName("name")[0]
+        ?.textContent?.trim();
+
+      try {
+        rows.push({
+          location,
+          name: name || `Checkpoint ${index + 1}`,
+          draft: parseKmlPlacemark(placemark),
+        });
+      } catch (error) {
+        if (!(error instanceof ImportRowError)) {
+          throw error;
+        }
+        issues.push({ location, message: error.message });
+      }
+    }
+  );
+
+  return rows;
+};
+
+/**
+ * Parses a GeoJSON, KML or CSV checkpoint file (picked by extension) into
+ * geofences and matching presets. Invalid rows are skipped and reported in
+ * `issues` instead of failing the whole import.
+ */
+export const parseCheckpointFile = (
+  text: string,
+  filename: string
+): CheckpointImportResult => {
+  const issues: ImportIssue[] = [];
+  const extension = filename.split(".").pop()?.toLowerCase();
+
+  const rows =
+    extension === "csv"
+      ? parseCsv(text, issues)
+      : extension === "kml"
+      ? parseKml(text, issues)
+      : parseGeoJson(text, issues);
+
+  const usedIds = new Set<string>();
+  const geofences = rows.map(({ name, draft }): Geofence => {
+    const base = `import-${slugify(name)}`;
+    let id = base;
+    for (let suffix = 2; usedIds.has(id); suffix += 1) {
+      id = `${base}-${suffix}`;
+    }
+    usedIds.add(id);
+
+    return { id, name, ...draft };
+  });
+
+  const presets = geofences.map((geofence): LocationPreset => {
+    const anchor = getGeofenceAnchor(geofence);
+    return {
+      id: geofence.id,
+      label: geofence.name,
+      lat: anchor.lat,
+      lng: anchor.lng,
+    };
+  });
+
+  return { geofences, presets, issues };
+};
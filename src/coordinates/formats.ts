@@ -0,0 +1,81 @@
+import { toMgrs } from "./mgrs";
+import { encodePlusCode } from "./plusCode";
+import { toUtm, UTM_MAX_LATITUDE, UTM_MIN_LATITUDE } from "./utm";
+
+/** Input notations recognised by the smart coordinate field. */
+export type CoordinateFormat =
+  | "decimal"
+  | "dms"
+  | "geo-uri"
+  | "map-link"
+  | "plus-code"
+  | "utm"
+  | "mgrs";
+
+/** Notations the coordinate readout can be shown in. */
+export type CoordinateDisplayFormat = Extract<
+  CoordinateFormat,
+  "decimal" | "dms" | "plus-code" | "utm" | "mgrs"
+>;
+
+export const COORDINATE_FORMAT_LABELS: Record<CoordinateFormat, string> = {
+  decimal: "Decimal degrees",
+  dms: "Degrees, minutes, seconds",
+  "geo-uri": "geo: URI",
+  "map-link": "Map link",
+  "plus-code": "Plus Code",
+  utm: "UTM",
+  mgrs: "MGRS",
+};
+
+export const COORDINATE_DISPLAY_FORMATS: CoordinateDisplayFormat[] = [
+  "decimal",
+  "dms",
+  "plus-code",
+  "utm",
+  "mgrs",
+];
+
+const formatDms = (value: number, positive: string, negative: string) => {
+  const totalSeconds = Math.round(Math.abs(value) * 36000) / 10;
+  const degrees = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds - degrees * 3600) / 60);
+  const seconds = totalSeconds - degrees * 3600 - minutes * 60;
+
+  return `${degrees}°${String(minutes).padStart(2, "0")}'${seconds
+    .toFixed(1)
+    .padStart(4, "0")}"${value < 0 ? negative : positive}`;
+};
+
+/** UTM and MGRS are undefined near the poles; those fall back to decimal. */
+export const formatCoordinates = (
+  lat: number,
+  lng: number,
+  format: CoordinateDisplayFormat
+) => {
+  const inUtmRange = lat >= UTM_MIN_LATITUDE && lat < UTM_MAX_LATITUDE;
+
+  switch (format) {
+    case "dms":
+      return `${formatDms(lat, "N", "S")} ${formatDms(lng, "E", "W")}`;
+    case "plus-code":
+      return encodePlusCode(lat, lng);
+    case "utm":
+      if (inUtmRange) {
+        const utm = toUtm(lat, lng);
+        return `${utm.zone}${utm.band} ${Math.round(
+          utm.easting
+        )}mE ${Math.round(utm.northing)}mN`;
+      }
+      break;
+    case "mgrs":
+      if (inUtmRange) {
+        return toMgrs(lat, lng);
+      }
+      break;
+    case "decimal":
+      break;
+  }
+
+  return `${lat.toFixed(5)}, ${lng.toFixed(5)}`;
+};
@@ -0,0 +1,98 @@
+import type { LatLngLiteral } from "../geo";
+import { fromUtm, getBandMinLatitude, getUtmZone, toUtm } from "./utm";
+
+export type MgrsReference = {
+  zone: number;
+  band: string;
+  /** 100 km square column and row letters. */
+  square: string;
+  easting: number;
+  northing: number;
+  /** Size of the referenced grid square in metres (1 m – 100 km). */
+  precision: number;
+};
+
+/** Column letters repeat every three zones. */
+const COLUMN_SETS = ["STUVWXYZ", "ABCDEFGH", "JKLMNPQR"];
+const ROW_LETTERS = "ABCDEFGHJKLMNPQRSTUV";
+const SQUARE_SIZE = 100000;
+const ROW_CYCLE = ROW_LETTERS.length * SQUARE_SIZE;
+
+/** Even zones start their row lettering at F. */
+const getRowOffset = (zone: number) => (zone % 2 === 0 ? 5 : 0);
+
+export const toMgrs = (lat: number, lng: number, digits = 5) => {
+  const utm = toUtm(lat, lng, getUtmZone(lat, lng));
+  // Round to the metre first so the square letters and digits agree.
+  const easting = Math.round(utm.easting);
+  const northing = Math.round(utm.northing);
+  const column =
+    COLUMN_SETS[utm.zone % 3][Math.floor(easting / SQUARE_SIZE) - 1];
+  const row =
+    ROW_LETTERS[
+      (Math.floor(northing / SQUARE_SIZE) + getRowOffset(utm.zone)) %
+        ROW_LETTERS.length
+    ];
+  const divisor = 10 ** (5 - digits);
+  const format = (value: number) =>
+    String(Math.floor((value % SQUARE_SIZE) / divisor)).padStart(digits, "0");
+
+  return `${utm.zone}${utm.band} ${column}${row} ${format(easting)} ${format(
+    northing
+  )}`;
+};
+
+/**
+ * Resolves an MGRS reference to the centre of its grid square. Throws with a
+ * user-facing message when the letters cannot occur in the given zone/band.
+ */
+export const fromMgrs = ({
+  zone,
+  band,
+  square,
+  easting,
+  northing,
+  precision,
+}: MgrsReference): LatLngLiteral => {
+  const [columnLetter, rowLetter] = square.toUpperCase();
+  const columnIndex = COLUMN_SETS[zone % 3].indexOf(columnLetter);
+  if (columnIndex < 0) {
+    throw new Error(
+      `column letter ${columnLetter} is not used in zone ${zone} (expected one of ${
+        COLUMN_SETS[zone % 3]
+      })`
+    );
+  }
+
+  const rowIndex = ROW_LETTERS.indexOf(rowLetter);
+  if (rowIndex < 0) {
+    throw new Error(`row letter ${rowLetter} is not a valid MGRS row`);
+  }
+
+  const bandMinLatitude = getBandMinLatitude(band);
+  if (bandMinLatitude === null) {
+    throw new Error(`${band} is not a latitude band (C–X, no I or O)`);
+  }
+
+  // Row letters repeat every 2000 km; pick the cycle that lands in the band.
+  const minNorthing =
+    Math.floor(
+      toUtm(bandMinLatitude, (zone - 1) * 6 - 177, zone).northing / SQUARE_SIZE
+    ) * SQUARE_SIZE;
+  let fullNorthing =
+    ((rowIndex - getRowOffset(zone) + ROW_LETTERS.length) %
+      ROW_LETTERS.length) *
+      SQUARE_SIZE +
+    northing +
+    precision / 2;
+  while (fullNorthing < minNorthing) {
+    fullNorthing += ROW_CYCLE;
+  }
+
+  return fromUtm({
+    zone,
+    band,
+    easting: (columnIndex + 1) * SQUARE_SIZE + easting + precision / 2,
+    northing: fullNorthing,
+  });
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { parseCoordinates } from "./parseCoordinates";
+
+describe("parseCoordinates", () => {
+  it("reads decimal degrees", () => {
+    expect(parseCoordinates("51.1283, 71.4305")).toMatchObject({
+      ok: true,
+      format: "decimal",
+      lat: 51.1283,
+      lng: 71.4305,
+    });
+  });
+
+  it("reads degrees, minutes and seconds", () => {
+    const result = parseCoordinates(`51°7'41.9"N 71°25'49.8"E`);
+    expect(result).toMatchObject({ ok: true, format: "dms" });
+    expect(result?.ok && result.lat).toBeCloseTo(51.12831, 4);
+    expect(result?.ok && result.lng).toBeCloseTo(71.4305, 4);
+  });
+
+  it("reads decimal commas as decimal points", () => {
+    expect(parseCoordinates("51,13 71,38")).toMatchObject({
+      ok: true,
+      format: "decimal",
+      lat: 51.13,
+      lng: 71.38,
+    });
+    expect(parseCoordinates("-33,86; 151,2")).toMatchObject({
+      ok: true,
+      lat: -33.86,
+      lng: 151.2,
+    });
+  });
+
+  it("keeps a comma between latitude and longitude", () => {
+    expect(parseCoordinates("51,13")).toMatchObject({
+      ok: true,
+      lat: 51,
+      lng: 13,
+    });
+  });
+
+  it("reports a malformed escape in a map link", () => {
+    expect(parseCoordinates("https://maps.google.com/%zz?q=1,2")).toEqual({
+      ok: false,
+      format: "map-link",
+      error: "this link contains a malformed %-escape",
+    });
+  });
+
+  it("reads coordinates from a map link", () => {
+    expect(
+      parseCoordinates("https://www.openstreetmap.org/?mlat=51.1&mlon=71.4")
+    ).toMatchObject({ ok: true, format: "map-link", lat: 51.1, lng: 71.4 });
+  });
+});
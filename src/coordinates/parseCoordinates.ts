@@ -0,0 +1,481 @@
+import type { LatLngLiteral } from "../geo";
+import type { CoordinateFormat } from "./formats";
+import { fromMgrs } from "./mgrs";
+import { decodePlusCode, looksLikePlusCode } from "./plusCode";
+import { fromUtm, getBandMinLatitude } from "./utm";
+
+export type CoordinateParseResult =
+  | ({ ok: true; format: CoordinateFormat } & LatLngLiteral)
+  | { ok: false; format: CoordinateFormat | null; error: string };
+
+class CoordinateFormatError extends Error {
+  constructor(readonly format: CoordinateFormat | null, message: string) {
+    super(message);
+  }
+}
+
+const MGRS_PATTERN =
+  /^(\d{1,2})\s*([C-HJ-NP-X])\s*([A-HJ-NP-Z])([A-HJ-NP-V])\s*(\d*)\s*(\d*)$/i;
+const UTM_PATTERN =
+  /^(\d{1,2})\s*([C-HJ-NP-X])\s+(\d+(?:\.\d+)?)\s*(?:m?E)?[\s,;]+(\d+(?:\.\d+)?)\s*(?:m?N)?$/i;
+const URL_PATTERN = /^(https?:\/\/|www\.)/i;
+const SHORT_MAP_LINK_PATTERN = /^(maps\.app\.goo\.gl|goo\.gl)$/i;
+/** One coordinate component or hemisphere letter; see {@link parseDegrees}. */
+const TOKEN_PATTERN =
+  /\s*(?:([NSEW])(?![a-z])|([-+]?)(\d+(?:\.\d+)?)\s*([°'":]?))\s*[,;/]?/iy;
+const LABEL_PATTERN = /\b(lat(itude)?|lng|lon(gitude)?)\b\s*[:=]?/gi;
+/** "51,13 71,38": two numbers with decimal commas, apart by space or ";". */
+const DECIMAL_COMMA_PATTERN =
+  /^([-+]?\d+),(\d+)\s*°?\s*(?:;\s*|\s+)([-+]?\d+),(\d+)\s*°?$/;
+
+const checkRange = (
+  lat: number,
+  lng: number,
+  format: CoordinateFormat
+): LatLngLiteral => {
+  if (!(Math.abs(lat) <= 90)) {
+    throw new CoordinateFormatError(
+      format,
+      `latitude ${Number(lat.toFixed(6))} is outside -90…90`
+    );
+  }
+  if (!(Math.abs(lng) <= 180)) {
+    throw new CoordinateFormatError(
+      format,
+      `longitude ${Number(lng.toFixed(6))} is outside -180…180`
+    );
+  }
+  return { lat, lng };
+};
+
+const parsePair = (value: string | null, format: CoordinateFormat) => {
+  const match = value?.match(/^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)/);
+  return match ? checkRange(Number(match[1]), Number(match[2]), format) : null;
+};
+
+type Token =
+  | { kind: "hemisphere"; letter: string }
+  | { kind: "number"; sign: string; value: string; unit: string };
+
+const tokenize = (text: string) => {
+  const tokens: Token[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+
+  while (TOKEN_PATTERN.lastIndex < text.length) {
+    const start = TOKEN_PATTERN.lastIndex;
+    const match = TOKEN_PATTERN.exec(text);
+    if (!match || TOKEN_PATTERN.lastIndex === start) {
+      throw new CoordinateFormatError(
+        null,
+        `unexpected "${
+          text.slice(start).trim()[0]
+        }" — not a recognised coordinate format`
+      );
+    }
+
+    tokens.push(
+      match[1]
+        ? { kind: "hemisphere", letter: match[1].toUpperCase() }
+        : { kind: "number", sign: match[2], value: match[3], unit: match[4] }
+    );
+  }
+
+  return tokens;
+};
+
+/** Splits tokens into the two coordinates, using hemisphere letters if given. */
+const groupTokens = (tokens: Token[]) => {
+  const letters = tokens.filter((token) => token.kind === "hemisphere");
+
+  if (letters.length === 0) {
+    const numbers = tokens as Extract<Token, { kind: "number" }>[];
+    const degreeMarks = numbers
+      .map((token, index) => (token.unit === "°" ? index : -1))
+      .filter((index) => index >= 0);
+    const split =
+      degreeMarks.length === 2 && degreeMarks[0] === 0
+        ? degreeMarks[1]
+        : numbers.length / 2;
+
+    if (!Number.isInteger(split) || split < 1 || split > 3) {
+      throw new CoordinateFormatError(
+        numbers.length > 2 ? "dms" : "decimal",
+        `expected two coordinates, found ${numbers.length} number(s)`
+      );
+    }
+    return [
+      { letter: null, numbers: numbers.slice(0, split) },
+      { letter: null, numbers: numbers.slice(split) },
+    ];
+  }
+
+  if (letters.length !== 2) {
+    throw new CoordinateFormatError(
+      "dms",
+      "use one N/S and one E/W letter, or none"
+    );
+  }
+
+  const prefix = tokens[0].kind === "hemisphere";
+  if (!prefix && tokens[tokens.length - 1].kind !== "hemisphere") {
+    throw new CoordinateFormatError(
+      "dms",
+      "put N/S/E/W consistently before or after each coordinate"
+    );
+  }
+
+  const groups: { letter: string | null; numbers: Token[] }[] = [];
+  let pending: Token[] = [];
+  tokens.forEach((token) => {
+    if (token.kind !== "hemisphere") {
+      if (prefix) {
+        groups[groups.length - 1].numbers.push(token);
+      } else {
+        pending.push(token);
+      }
+    } else if (prefix) {
+      groups.push({ letter: token.letter, numbers: [] });
+    } else {
+      groups.push({ letter: token.letter, numbers: pending });
+      pending = [];
+    }
+  });
+
+  return groups.map(({ letter, numbers }) => ({
+    letter,
+    numbers: numbers as Extract<Token, { kind: "number" }>[],
+  }));
+};
+
+/** Degrees with optional minutes and seconds, signed by letter or minus. */
+const parseDegrees = (
+  numbers: Extract<Token, { kind: "number" }>[],
+  letter: string | null,
+  format: CoordinateFormat
+) => {
+  if (numbers.length === 0 || numbers.length > 3) {
+    throw new CoordinateFormatError(
+      format,
+      "each coordinate needs degrees, and at most minutes and seconds"
+    );
+  }
+
+  numbers.forEach((token, index) => {
+    if (index > 0 && token.sign) {
+      throw new CoordinateFormatError(
+        format,
+        "only the degrees may carry a sign"
+      );
+    }
+    if (index < numbers.length - 1 && token.value.includes(".")) {
+      throw new CoordinateFormatError(
+        format,
+        "only the last component may have decimals"
+      );
+    }
+    if (index > 0 && Number(token.value) >= 60) {
+      throw new CoordinateFormatError(
+        format,
+        `${index === 1 ? "minutes" : "seconds"} must be below 60`
+      );
+    }
+  });
+
+  if (letter && numbers[0].sign) {
+    throw new CoordinateFormatError(
+      format,
+      "use either a minus sign or a hemisphere letter, not both"
+    );
+  }
+
+  const magnitude = numbers.reduce(
+    (sum, token, index) => sum + Number(token.value) / 60 ** index,
+    0
+  );
+  const negative = numbers[0].sign === "-" || letter === "S" || letter === "W";
+  return negative ? -magnitude : magnitude;
+};
+
+const parseDegreeText = (text: string): CoordinateParseResult => {
+  const normalized = text
+    .replace(LABEL_PATTERN, " ")
+    .replace(/[″”“]|''/g, '"')
+    .replace(/[′’‘´`]/g, "'")
+    .replace(/[º˚]/g, "°")
+    .trim()
+    .replace(DECIMAL_COMMA_PATTERN, "$1.$2 $3.$4");
+  const tokens = tokenize(normalized);
+  const groups = groupTokens(tokens);
+  const format: CoordinateFormat = groups.some(
+    ({ numbers }) => numbers.length > 1
+  )
+    ? "dms"
+    : "decimal";
+
+  const values = groups.map(({ letter, numbers }) => ({
+    letter,
+    value: parseDegrees(numbers, letter, format),
+  }));
+
+  const [first, second] = values;
+  const firstIsLng = first.letter === "E" || first.letter === "W";
+  const secondIsLng = second.letter === "E" || second.letter === "W";
+  if (first.letter && firstIsLng === secondIsLng) {
+    throw new CoordinateFormatError(
+      format,
+      "one coordinate must be N/S and the other E/W"
+    );
+  }
+
+  const { lat, lng } = firstIsLng
+    ? { lat: second.value, lng: first.value }
+    : { lat: first.value, lng: second.value };
+  return { ok: true, format, ...checkRange(lat, lng, format) };
+};
+
+const parseGeoUri = (text: string): CoordinateParseResult => {
+  const [path, query = ""] = text.slice(4).split("?");
+  const [coordinates, ...parameters] = path.split(";");
+  const crs = parameters
+    .find((item) => item.toLowerCase().startsWith("crs="))
+    ?.slice(4)
+    .toLowerCase();
+  if (crs && crs !== "wgs84") {
+    throw new CoordinateFormatError(
+      "geo-uri",
+      `coordinate system "${crs}" is not supported, only wgs84`
+    );
+  }
+
+  // Android intents use geo:0,0?q=lat,lng(Label) for labelled points.
+  const fromQuery = parsePair(new URLSearchParams(query).get("q"), "geo-uri");
+  const fromPath = parsePair(coordinates, "geo-uri");
+  const point =
+    fromQuery && fromPath?.lat === 0 && fromPath.lng === 0
+      ? fromQuery
+      : fromPath ?? fromQuery;
+  if (!point) {
+    throw new CoordinateFormatError(
+      "geo-uri",
+      'expected "geo:<latitude>,<longitude>"'
+    );
+  }
+
+  return { ok: true, format: "geo-uri", ...point };
+};
+
+const parseMapLink = (text: string): CoordinateParseResult => {
+  let url: URL;
+  try {
+    url = new URL(/^https?:\/\//i.test(text) ? text : `https://${text}`);
+  } catch (error) {
+    throw new CoordinateFormatError("map-link", "this link is not a valid URL");
+  }
+
+  if (SHORT_MAP_LINK_PATTERN.test(url.hostname)) {
+    throw new CoordinateFormatError(
+      "map-link",
+      "shortened links cannot be read here; open the link and copy the full URL"
+    );
+  }
+
+  const params = url.searchParams;
+  let href: string;
+  try {
+    href = decodeURIComponent(url.href);
+  } catch (error) {
+    throw new CoordinateFormatError(
+      "map-link",
+      "this link contains a malformed %-escape"
+    );
+  }
+  // Yandex puts longitude first in ll= and pt=.
+  const lngFirst = /(^|\.)yandex\./i.test(url.hostname);
+  const swap = (point: LatLngLiteral | null) =>
+    point && lngFirst ? checkRange(point.lng, point.lat, "map-link") : point;
+
+  const place = href.match(/!3d(-?\d+(?:\.\d+)?)!4d(-?\d+(?:\.\d+)?)/);
+  const at = href.match(/@(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)/);
+  const osmHash = url.hash.match(
+    /map=\d+(?:\.\d+)?\/(-?\d+(?:\.\d+)?)\/(-?\d+(?:\.\d+)?)/
+  );
+  const marker =
+    params.get("mlat") && params.get("mlon")
+      ? `${params.get("mlat")},${params.get("mlon")}`
+      : null;
+  const plain =
+    params.get("lat") && (params.get("lng") ?? params.get("lon"))
+      ? `${params.get("lat")},${params.get("lng") ?? params.get("lon")}`
+      : null;
+
+  const point =
+    (place && checkRange(Number(place[1]), Number(place[2]), "map-link")) ??
+    parsePair(marker, "map-link") ??
+    swap(parsePair(params.get("pt"), "map-link")) ??
+    parsePair(params.get("q") ?? params.get("query"), "map-link") ??
+    parsePair(params.get("destination") ?? params.get("daddr"), "map-link") ??
+    swap(parsePair(params.get("ll") ?? params.get("center"), "map-link")) ??
+    parsePair(params.get("sim") ?? params.get("view"), "map-link") ??
+    parsePair(plain, "map-link") ??
+    (at && checkRange(Number(at[1]), Number(at[2]), "map-link")) ??
+    (osmHash && checkRange(Number(osmHash[1]), Number(osmHash[2]), "map-link"));
+
+  if (!point) {
+    throw new CoordinateFormatError(
+      "map-link",
+      `no coordinates found in this ${url.hostname} link; links to named places need to be opened first`
+    );
+  }
+
+  return { ok: true, format: "map-link", ...point };
+};
+
+const parseUtm = (match: RegExpMatchArray): CoordinateParseResult => {
+  const zone = Number(match[1]);
+  const band = match[2].toUpperCase();
+  const easting = Number(match[3]);
+  const northing = Number(match[4]);
+
+  if (zone < 1 || zone > 60) {
+    throw new CoordinateFormatError("utm", `zone ${zone} is outside 1…60`);
+  }
+  if (easting < 100000 || easting > 900000) {
+    throw new CoordinateFormatError(
+      "utm",
+      `easting ${easting} m is outside 100 000…900 000 m`
+    );
+  }
+  if (northing < 0 || northing > 10000000) {
+    throw new CoordinateFormatError(
+      "utm",
+      `northing ${northing} m is outside 0…10 000 000 m`
+    );
+  }
+
+  const { lat, lng } = fromUtm({ zone, band, easting, northing });
+  const bandMin = getBandMinLatitude(band) ?? 0;
+  const bandMax = bandMin + (band === "X" ? 12 : 8);
+  if (lat < bandMin - 0.5 || lat > bandMax + 0.5) {
+    throw new CoordinateFormatError(
+      "utm",
+      `northing ${northing} m does not fall in latitude band ${band} (${bandMin}°…${bandMax}°)`
+    );
+  }
+
+  return { ok: true, format: "utm", ...checkRange(lat, lng, "utm") };
+};
+
+const parseMgrs = (match: RegExpMatchArray): CoordinateParseResult => {
+  const zone = Number(match[1]);
+  if (zone < 1 || zone > 60) {
+    throw new CoordinateFormatError("mgrs", `zone ${zone} is outside 1…60`);
+  }
+
+  let [eastingDigits, northingDigits] = [match[5], match[6]];
+  if (!northingDigits) {
+    if (eastingDigits.length % 2 !== 0) {
+      throw new CoordinateFormatError(
+        "mgrs",
+        "the grid digits must have an even count (easting then northing)"
+      );
+    }
+    const half = eastingDigits.length / 2;
+    [eastingDigits, northingDigits] = [
+      eastingDigits.slice(0, half),
+      eastingDigits.slice(half),
+    ];
+  }
+  if (eastingDigits.length !== northingDigits.length) {
+    throw new CoordinateFormatError(
+      "mgrs",
+      "easting and northing need the same number of digits"
+    );
+  }
+  if (eastingDigits.length > 5) {
+    throw new CoordinateFormatError(
+      "mgrs",
+      "at most 5 digits each for easting and northing"
+    );
+  }
+
+  const digits = eastingDigits.length;
+  const scale = 10 ** (5 - digits);
+  try {
+    const { lat, lng } = fromMgrs({
+      zone,
+      band: match[2].toUpperCase(),
+      square: `${match[3]}${match[4]}`.toUpperCase(),
+      easting: digits ? Number(eastingDigits) * scale : 0,
+      northing: digits ? Number(northingDigits) * scale : 0,
+      precision: scale,
+    });
+    return { ok: true, format: "mgrs", ...checkRange(lat, lng, "mgrs") };
+  } catch (error) {
+    if (error instanceof CoordinateFormatError) {
+      throw error;
+    }
+    throw new CoordinateFormatError(
+      "mgrs",
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+};
+
+/**
+ * Parses free-form coordinates: decimal degrees, DMS/DM, geo: URIs, map
+ * links, Plus Codes, UTM and MGRS. `reference` recovers short Plus Codes.
+ * Returns null for blank input.
+ */
+export const parseCoordinates = (
+  input: string,
+  reference?: LatLngLiteral | null
+): CoordinateParseResult | null => {
+  const text = input.trim();
+  if (!text) {
+    return null;
+  }
+
+  try {
+    if (/^geo:/i.test(text)) {
+      return parseGeoUri(text);
+    }
+
+    if (URL_PATTERN.test(text) || /^([\w-]+\.)+[a-z]{2,}\/\S*$/i.test(text)) {
+      return parseMapLink(text);
+    }
+
+    // Locality text after a short code ("9G8F+6X Astana") is ignored.
+    const [firstWord] = text.split(/\s+/);
+    if (looksLikePlusCode(firstWord)) {
+      try {
+        return {
+          ok: true,
+          format: "plus-code",
+          ...decodePlusCode(firstWord, reference),
+        };
+      } catch (error) {
+        throw new CoordinateFormatError(
+          "plus-code",
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+    }
+
+    const mgrs = text.match(MGRS_PATTERN);
+    if (mgrs) {
+      return parseMgrs(mgrs);
+    }
+
+    const utm = text.match(UTM_PATTERN);
+    if (utm) {
+      return parseUtm(utm);
+    }
+
+    return parseDegreeText(text);
+  } catch (error) {
+    if (error instanceof CoordinateFormatError) {
+      return { ok: false, format: error.format, error: error.message };
+    }
+    throw error;
+  }
+};
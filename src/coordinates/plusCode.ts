@@ -0,0 +1,180 @@
+import type { LatLngLiteral } from "../geo";
+
+/** Open Location Code digit set; the index is the digit value. */
+const ALPHABET = "23456789CFGHJMPQRVWX";
+const SEPARATOR = "+";
+const SEPARATOR_POSITION = 8;
+const PADDING = "0";
+const PAIR_CODE_LENGTH = 10;
+const GRID_ROWS = 5;
+const GRID_COLUMNS = 4;
+/** Degrees covered by the first pair digit. */
+const FIRST_PAIR_RESOLUTION = 20;
+
+const PLUS_CODE_PATTERN = new RegExp(
+  `^[${ALPHABET}${PADDING}]{2,8}\\${SEPARATOR}[${ALPHABET}]*$`,
+  "i"
+);
+
+export const looksLikePlusCode = (value: string) =>
+  PLUS_CODE_PATTERN.test(value.trim());
+
+/** Short codes drop leading digits and must be recovered near a reference. */
+export const isShortPlusCode = (code: string) =>
+  code.indexOf(SEPARATOR) < SEPARATOR_POSITION;
+
+const validate = (code: string) => {
+  const separatorIndex = code.indexOf(SEPARATOR);
+  if (separatorIndex !== code.lastIndexOf(SEPARATOR)) {
+    throw new Error("a Plus Code has exactly one +");
+  }
+  if (separatorIndex % 2 !== 0 || separatorIndex > SEPARATOR_POSITION) {
+    throw new Error("the + must follow an even number of digits (at most 8)");
+  }
+
+  const paddingIndex = code.indexOf(PADDING);
+  if (paddingIndex >= 0) {
+    if (separatorIndex < SEPARATOR_POSITION) {
+      throw new Error("short Plus Codes cannot contain 0 padding");
+    }
+    if (paddingIndex === 0 || paddingIndex % 2 !== 0) {
+      throw new Error("0 padding must follow an even number of digits");
+    }
+    if (!/^0+$/.test(code.slice(paddingIndex, separatorIndex))) {
+      throw new Error("digits cannot follow 0 padding");
+    }
+    if (code.length > separatorIndex + 1) {
+      throw new Error("padded Plus Codes must end with +");
+    }
+  }
+
+  if (code.length - separatorIndex - 1 === 1) {
+    throw new Error("a Plus Code needs at least two digits after the +");
+  }
+
+  const first = ALPHABET.indexOf(code[0]) * FIRST_PAIR_RESOLUTION;
+  const second = ALPHABET.indexOf(code[1]) * FIRST_PAIR_RESOLUTION;
+  if (
+    separatorIndex === SEPARATOR_POSITION &&
+    (first >= 180 || second >= 360)
+  ) {
+    throw new Error("the first two digits are outside the globe");
+  }
+};
+
+/** Decodes a full code to the centre of its area. */
+const decodeFull = (code: string): LatLngLiteral => {
+  const digits = code.replace(SEPARATOR, "").replace(/0+$/, "");
+  let lat = -90;
+  let lng = -180;
+  // Resolution of the digit being read; starts one pair above the first.
+  let latResolution = FIRST_PAIR_RESOLUTION * 20;
+  let lngResolution = FIRST_PAIR_RESOLUTION * 20;
+
+  for (let index = 0; index < digits.length; index += 1) {
+    const value = ALPHABET.indexOf(digits[index]);
+
+    if (index >= PAIR_CODE_LENGTH) {
+      latResolution /= GRID_ROWS;
+      lngResolution /= GRID_COLUMNS;
+      lat += Math.floor(value / GRID_COLUMNS) * latResolution;
+      lng += (value % GRID_COLUMNS) * lngResolution;
+    } else if (index % 2 === 0) {
+      latResolution /= 20;
+      lngResolution /= 20;
+      lat += value * latResolution;
+    } else {
+      lng += value * lngResolution;
+    }
+  }
+
+  return {
+    lat: Math.min(lat + latResolution / 2, 90),
+    lng: lng + lngResolution / 2,
+  };
+};
+
+export const encodePlusCode = (lat: number, lng: number, length = 11) => {
+  let latValue = Math.min(Math.max(lat, -90), 90) + 90;
+  let lngValue = (((lng + 180) % 360) + 360) % 360;
+  let latResolution = FIRST_PAIR_RESOLUTION;
+  let lngResolution = FIRST_PAIR_RESOLUTION;
+  let code = "";
+
+  // Codes for the north pole must stay inside the last row.
+  if (latValue >= 180) {
+    latValue = 180 - 1e-10;
+  }
+
+  for (let index = 0; index < Math.min(length, PAIR_CODE_LENGTH); index += 2) {
+    const latDigit = Math.floor(latValue / latResolution);
+    const lngDigit = Math.floor(lngValue / lngResolution);
+    latValue -= latDigit * latResolution;
+    lngValue -= lngDigit * lngResolution;
+    code += ALPHABET[latDigit] + ALPHABET[lngDigit];
+    if (code.length === SEPARATOR_POSITION) {
+      code += SEPARATOR;
+    }
+    latResolution /= 20;
+    lngResolution /= 20;
+  }
+  latResolution *= 20;
+  lngResolution *= 20;
+
+  for (let index = PAIR_CODE_LENGTH; index < length; index += 1) {
+    latResolution /= GRID_ROWS;
+    lngResolution /= GRID_COLUMNS;
+    const row = Math.min(Math.floor(latValue / latResolution), GRID_ROWS - 1);
+    const column = Math.min(
+      Math.floor(lngValue / lngResolution),
+      GRID_COLUMNS - 1
+    );
+    latValue -= row * latResolution;
+    lngValue -= column * lngResolution;
+    code += ALPHABET[row * GRID_COLUMNS + column];
+  }
+
+  return code;
+};
+
+/**
+ * Decodes full and short Plus Codes. Short codes (e.g. "9G8F+6X") are
+ * recovered relative to `reference`, as Google Maps does with the locality.
+ */
+export const decodePlusCode = (
+  value: string,
+  reference?: LatLngLiteral | null
+): LatLngLiteral => {
+  const code = value.trim().toUpperCase();
+  validate(code);
+
+  if (!isShortPlusCode(code)) {
+    return decodeFull(code);
+  }
+
+  if (!reference) {
+    throw new Error(
+      "short Plus Codes need a known position nearby; paste the full code (e.g. 8FVC9G8F+6X)"
+    );
+  }
+
+  const missing = SEPARATOR_POSITION - code.indexOf(SEPARATOR);
+  const resolution = FIRST_PAIR_RESOLUTION / 20 ** (missing / 2 - 1);
+  const prefix = encodePlusCode(reference.lat, reference.lng).slice(0, missing);
+  const decoded = decodeFull(prefix + code);
+
+  // Pick the neighbouring cell when the reference sits near an edge.
+  let { lat, lng } = decoded;
+  if (reference.lat + resolution / 2 < lat && lat - resolution >= -90) {
+    lat -= resolution;
+  } else if (reference.lat - resolution / 2 > lat && lat + resolution <= 90) {
+    lat += resolution;
+  }
+  if (reference.lng + resolution / 2 < lng) {
+    lng -= resolution;
+  } else if (reference.lng - resolution / 2 > lng) {
+    lng += resolution;
+  }
+
+  return { lat, lng: ((((lng + 180) % 360) + 360) % 360) - 180 };
+};
@@ -0,0 +1,167 @@
+import type { LatLngLiteral } from "../geo";
+
+export type UtmCoordinate = {
+  zone: number;
+  /** MGRS latitude band letter (C–X, without I and O). */
+  band: string;
+  easting: number;
+  northing: number;
+};
+
+/** Latitude bands from 80°S, 8° each; X covers 72–84°N. */
+export const LATITUDE_BANDS = "CDEFGHJKLMNPQRSTUVWX";
+
+export const UTM_MIN_LATITUDE = -80;
+export const UTM_MAX_LATITUDE = 84;
+
+const SEMI_MAJOR_AXIS = 6378137;
+const FLATTENING = 1 / 298.257223563;
+const SCALE_FACTOR = 0.9996;
+const FALSE_EASTING = 500000;
+const FALSE_NORTHING_SOUTH = 10000000;
+
+const E2 = FLATTENING * (2 - FLATTENING);
+const E4 = E2 * E2;
+const E6 = E4 * E2;
+const EP2 = E2 / (1 - E2);
+
+const toRadians = (value: number) => (value * Math.PI) / 180;
+const toDegrees = (value: number) => (value * 180) / Math.PI;
+
+export const getLatitudeBand = (lat: number) =>
+  LATITUDE_BANDS[
+    Math.min(
+      Math.floor((lat - UTM_MIN_LATITUDE) / 8),
+      LATITUDE_BANDS.length - 1
+    )
+  ];
+
+/** Southern edge of a latitude band in degrees, or null for unknown letters. */
+export const getBandMinLatitude = (band: string) => {
+  const index = LATITUDE_BANDS.indexOf(band.toUpperCase());
+  return index < 0 ? null : UTM_MIN_LATITUDE + index * 8;
+};
+
+/** Standard zone, including the Norway (32V) and Svalbard (31X–37X) exceptions. */
+export const getUtmZone = (lat: number, lng: number) => {
+  const zone = Math.floor((lng + 180) / 6) + 1;
+
+  if (lat >= 56 && lat < 64 && lng >= 3 && lng < 12) {
+    return 32;
+  }
+
+  if (lat >= 72 && lat < 84 && lng >= 0 && lng < 42) {
+    if (lng < 9) return 31;
+    if (lng < 21) return 33;
+    if (lng < 33) return 35;
+    return 37;
+  }
+
+  return Math.min(zone, 60);
+};
+
+const getCentralMeridian = (zone: number) => (zone - 1) * 6 - 180 + 3;
+
+const getMeridionalArc = (phi: number) =>
+  SEMI_MAJOR_AXIS *
+  ((1 - E2 / 4 - (3 * E4) / 64 - (5 * E6) / 256) * phi -
+    ((3 * E2) / 8 + (3 * E4) / 32 + (45 * E6) / 1024) * Math.sin(2 * phi) +
+    ((15 * E4) / 256 + (45 * E6) / 1024) * Math.sin(4 * phi) -
+    ((35 * E6) / 3072) * Math.sin(6 * phi));
+
+/**
+ * Projects WGS84 coordinates to UTM (Snyder's series, sub-metre within a
+ * zone). `zone` forces a neighbouring zone, as MGRS needs for band lookups.
+ */
+export const toUtm = (
+  lat: number,
+  lng: number,
+  zone = getUtmZone(lat, lng)
+): UtmCoordinate => {
+  const phi = toRadians(lat);
+  const sinPhi = Math.sin(phi);
+  const cosPhi = Math.cos(phi);
+  const tanPhi = Math.tan(phi);
+
+  const n = SEMI_MAJOR_AXIS / Math.sqrt(1 - E2 * sinPhi * sinPhi);
+  const t = tanPhi * tanPhi;
+  const c = EP2 * cosPhi * cosPhi;
+  const a = cosPhi * toRadians(lng - getCentralMeridian(zone));
+
+  const easting =
+    SCALE_FACTOR *
+      n *
+      (a +
+        ((1 - t + c) * a ** 3) / 6 +
+        ((5 - 18 * t + t * t + 72 * c - 58 * EP2) * a ** 5) / 120) +
+    FALSE_EASTING;
+  const northing =
+    SCALE_FACTOR *
+    (getMeridionalArc(phi) +
+      n *
+        tanPhi *
+        ((a * a) / 2 +
+          ((5 - t + 9 * c + 4 * c * c) * a ** 4) / 24 +
+          ((61 - 58 * t + t * t + 600 * c - 330 * EP2) * a ** 6) / 720));
+
+  return {
+    zone,
+    band: getLatitudeBand(lat),
+    easting,
+    northing: lat < 0 ? northing + FALSE_NORTHING_SOUTH : northing,
+  };
+};
+
+/** Inverse of {@link toUtm}. Bands below N are treated as southern. */
+export const fromUtm = ({
+  zone,
+  band,
+  easting,
+  northing,
+}: UtmCoordinate): LatLngLiteral => {
+  const southern = band.toUpperCase() < "N";
+  const x = easting - FALSE_EASTING;
+  const y = southern ? northing - FALSE_NORTHING_SOUTH : northing;
+
+  const mu =
+    y /
+    SCALE_FACTOR /
+    (SEMI_MAJOR_AXIS * (1 - E2 / 4 - (3 * E4) / 64 - (5 * E6) / 256));
+  const e1 = (1 - Math.sqrt(1 - E2)) / (1 + Math.sqrt(1 - E2));
+  const phi1 =
+    mu +
+    ((3 * e1) / 2 - (27 * e1 ** 3) / 32) * Math.sin(2 * mu) +
+    ((21 * e1 * e1) / 16 - (55 * e1 ** 4) / 32) * Math.sin(4 * mu) +
+    ((151 * e1 ** 3) / 96) * Math.sin(6 * mu) +
+    ((1097 * e1 ** 4) / 512) * Math.sin(8 * mu);
+
+  const sinPhi1 = Math.sin(phi1);
+  const cosPhi1 = Math.cos(phi1);
+  const tanPhi1 = Math.tan(phi1);
+  const n1 = SEMI_MAJOR_AXIS / Math.sqrt(1 - E2 * sinPhi1 * sinPhi1);
+  const t1 = tanPhi1 * tanPhi1;
+  const c1 = EP2 * cosPhi1 * cosPhi1;
+  const r1 =
+    (SEMI_MAJOR_AXIS * (1 - E2)) / Math.pow(1 - E2 * sinPhi1 * sinPhi1, 1.5);
+  const d = x / (n1 * SCALE_FACTOR);
+
+  const phi =
+    phi1 -
+    ((n1 * tanPhi1) / r1) *
+      ((d * d) / 2 -
+        ((5 + 3 * t1 + 10 * c1 - 4 * c1 * c1 - 9 * EP2) * d ** 4) / 24 +
+        ((61 + 90 * t1 + 298 * c1 + 45 * t1 * t1 - 252 * EP2 - 3 * c1 * c1) *
+          d ** 6) /
+          720);
+  const lambda =
+    (d -
+      ((1 + 2 * t1 + c1) * d ** 3) / 6 +
+      ((5 - 2 * c1 + 28 * t1 - 3 * c1 * c1 + 8 * EP2 + 24 * t1 * t1) * d ** 5) /
+        120) /
+    cosPhi1;
+
+  return {
+    lat: toDegrees(phi),
+    lng: getCentralMeridian(zone) + toDegrees(lambda),
+  };
+};
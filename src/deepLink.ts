@@ -0,0 +1,193 @@
+import WebApp from "@twa-dev/sdk";
+
+import { isValidLatitude, isValidLongitude, type LatLngLiteral } from "./geo";
+
+/**
+ * Initial state encoded in a launch link. The same fields are accepted as
+ * plain URL query parameters and, base64url-encoded, as Telegram's
+ * `start_param`.
+ */
+export type DeepLinkState = {
+  view?: LatLngLiteral & { zoom: number };
+  /** Checkpoint id (or name) to centre on once checkpoints are loaded. */
+  focus?: string;
+  /** http(s) URL of a CSV, GeoJSON or KML checkpoint file. */
+  checkpoints?: string;
+  /** Start in Simulator mode at these coordinates. */
+  simulate?: LatLngLiteral;
+};
+
+/** Telegram rejects longer `startapp` values. */
+export const START_PARAM_MAX_LENGTH = 64;
+
+const COORDINATE_DIGITS = 5;
+const MIN_ZOOM = 0;
+const MAX_ZOOM = 22;
+
+const parseNumbers = (value: string | null) =>
+  value
+    ? value.split(",").map((item) => (item.trim() ? Number(item) : NaN))
+    : [];
+
+const parseLatLng = (value: string | null): LatLngLiteral | undefined => {
+  const [lat, lng] = parseNumbers(value);
+  return isValidLatitude(lat) && isValidLongitude(lng)
+    ? { lat, lng }
+    : undefined;
+};
+
+const isHttpUrl = (value: string) => {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === "http:" || protocol === "https:";
+  } catch (error) {
+    return false;
+  }
+};
+
+const formatCoordinate = (value: number) =>
+  String(Number(value.toFixed(COORDINATE_DIGITS)));
+
+export const parseDeepLinkParams = (params: URLSearchParams): DeepLinkState => {
+  const state: DeepLinkState = {};
+
+  const [lat, lng, zoom] = parseNumbers(params.get("view"));
+  if (isValidLatitude(lat) && isValidLongitude(lng)) {
+    state.view = {
+      lat,
+      lng,
+      zoom: Number.isFinite(zoom)
+        ? Math.min(Math.max(Math.round(zoom), MIN_ZOOM), MAX_ZOOM)
+        : 16,
+    };
+  }
+
+  const focus = params.get("focus")?.trim();
+  if (focus) {
+    state.focus = focus;
+  }
+
+  const checkpoints = params.get("checkpoints")?.trim();
+  if (checkpoints && isHttpUrl(checkpoints)) {
+    state.checkpoints = checkpoints;
+  }
+
+  const simulate = parseLatLng(params.get("sim"));
+  if (simulate) {
+    state.simulate = simulate;
+  }
+
+  return state;
+};
+
+export const toDeepLinkParams = (state: DeepLinkState) => {
+  const params = new URLSearchParams();
+
+  if (state.view) {
+    const { lat, lng, zoom } = state.view;
+    params.set(
+      "view",
+      `${formatCoordinate(lat)},${formatCoordinate(lng)},${zoom}`
+    );
+  }
+  if (state.focus) {
+    params.set("focus", state.focus);
+  }
+  if (state.checkpoints) {
+    params.set("checkpoints", state.checkpoints);
+  }
+  if (state.simulate) {
+    params.set(
+      "sim",
+      `${formatCoordinate(state.simulate.lat)},${formatCoordinate(
+        state.simulate.lng
+      )}`
+    );
+  }
+
+  return params;
+};
+
+/** Query strings are ASCII once URL-encoded, so btoa is safe here. */
+export const encodeStartParam = (state: DeepLinkState) =>
+  btoa(toDeepLinkParams(state).toString())
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+/**
+ * Decodes a `start_param`. Values that are not an encoded state are treated
+ * as a bare checkpoint id, so bots can also link `?startapp=<checkpoint>`.
+ */
+export const decodeStartParam = (value: string): DeepLinkState => {
+  try {
+    const decoded = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+    const state = parseDeepLinkParams(new URLSearchParams(decoded));
+    if (Object.keys(state).length > 0) {
+      return state;
+    }
+  } catch (error) {
+    // not base64: fall through to a bare checkpoint id
+  }
+
+  return value ? { focus: value } : {};
+};
+
+/** Reads the launch state; explicit query parameters win over start_param. */
+export const readLaunchDeepLink = (): DeepLinkState => {
+  const query = new URLSearchParams(window.location.search);
+  const startParam =
+    WebApp.initDataUnsafe?.start_param ??
+    query.get("tgWebAppStartParam") ??
+    query.get("startapp");
+
+  return {
+    ...(startParam ? decodeStartParam(startParam) : {}),
+    ...parseDeepLinkParams(query),
+  };
+};
+
+/**
+ * Builds a link reproducing `state`. Uses the bot's Mini App link when
+ * `VITE_TELEGRAM_APP_URL` is set and the state fits in a start_param, and
+ * the plain web URL otherwise.
+ */
+export const buildShareLink = (state: DeepLinkState) => {
+  const appUrl = import.meta.env.VITE_TELEGRAM_APP_URL;
+  const startParam = encodeStartParam(state);
+
+  if (appUrl && startParam.length <= START_PARAM_MAX_LENGTH) {
+    const url = new URL(appUrl);
+    if (startParam) {
+      url.searchParams.set("startapp", startParam);
+    }
+    return url.toString();
+  }
+
+  const url = new URL(window.location.pathname, window.location.origin);
+  url.search = toDeepLinkParams(state).toString();
+  return url.toString();
+};
+
+/**
+ * Hands the link to Telegram's share sheet inside the Mini App, the Web Share
+ * API where available, and the clipboard otherwise.
+ */
+export const shareLink = async (
+  link: string
+): Promise<"telegram" | "shared" | "copied"> => {
+  if (WebApp.initData) {
+    WebApp.openTelegramLink(
+      `https://t.me/share/url?url=${encodeURIComponent(link)}`
+    );
+    return "telegram";
+  }
+
+  if (navigator.share) {
+    await navigator.share({ url: link });
+    return "shared";
+  }
+
+  await navigator.clipboard.writeText(link);
+  return "copied";
+};
@@ -0,0 +1,23 @@
+export const downloadTextFile = (
+  filename: string,
+  content: string,
+  mimeType: string
+) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers only start reading the blob after click() returns.
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
@@ -0,0 +1,232 @@
+export const EARTH_RADIUS_METERS = 6_371_000;
+
+export type LatLngLiteral = {
+  lat: number;
+  lng: number;
+};
+
+export const isValidLatitude = (value: number | null): value is number =>
+  value !== null && value >= -90 && value <= 90;
+
+export const isValidLongitude = (value: number | null): value is number =>
+  value !== null && value >= -180 && value <= 180;
+
+export const toRadians = (value: number) => (value * Math.PI) / 180;
+
+export const getDistanceInMeters = (
+  lat1: number,
+  lng1: number,
+  lat2: number,
+  lng2: number
+) => {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(lat1)) *
+      Math.cos(toRadians(lat2)) *
+      Math.sin(dLng / 2) *
+      Math.sin(dLng / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return EARTH_RADIUS_METERS * c;
+};
+
+/** Initial great-circle bearing in degrees clockwise from true north. */
+export const getInitialBearing = (
+  lat1: number,
+  lng1: number,
+  lat2: number,
+  lng2: number
+) => {
+  const phi1 = toRadians(lat1);
+  const phi2 = toRadians(lat2);
+  const dLng = toRadians(lng2 - lng1);
+  const y = Math.sin(dLng) * Math.cos(phi2);
+  const x =
+    Math.cos(phi1) * Math.sin(phi2) -
+    Math.sin(phi1) * Math.cos(phi2) * Math.cos(dLng);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+};
+
+const getClosestPointOnSegment = (
+  point: LatLngLiteral,
+  start: LatLngLiteral,
+  end: LatLngLiteral
+): LatLngLiteral => {
+  // Project onto a local equirectangular plane; accurate enough for the
+  // short edges geofences are made of.
+  const scale = Math.cos(toRadians(point.lat));
+  const ax = (start.lng - point.lng) * scale;
+  const ay = start.lat - point.lat;
+  const bx = (end.lng - point.lng) * scale;
+  const by = end.lat - point.lat;
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+
+  if (lengthSquared === 0) {
+    return start;
+  }
+
+  const t = Math.min(Math.max(-(ax * dx + ay * dy) / lengthSquared, 0), 1);
+  return {
+    lat: start.lat + (end.lat - start.lat) * t,
+    lng: start.lng + (end.lng - start.lng) * t,
+  };
+};
+
+export const getDistanceToSegmentInMeters = (
+  point: LatLngLiteral,
+  start: LatLngLiteral,
+  end: LatLngLiteral
+) => {
+  const closest = getClosestPointOnSegment(point, start, end);
+  return getDistanceInMeters(point.lat, point.lng, closest.lat, closest.lng);
+};
+
+export const getDistanceToPolylineInMeters = (
+  point: LatLngLiteral,
+  path: LatLngLiteral[]
+) => {
+  if (path.length === 0) {
+    return Infinity;
+  }
+
+  if (path.length === 1) {
+    return getDistanceInMeters(point.lat, point.lng, path[0].lat, path[0].lng);
+  }
+
+  let minDistance = Infinity;
+  for (let index = 1; index < path.length; index += 1) {
+    minDistance = Math.min(
+      minDistance,
+      getDistanceToSegmentInMeters(point, path[index - 1], path[index])
+    );
+  }
+  return minDistance;
+};
+
+export const isPointInPolygon = (
+  point: LatLngLiteral,
+  polygon: LatLngLiteral[]
+) => {
+  let inside = false;
+
+  for (
+    let index = 0, previous = polygon.length - 1;
+    index < polygon.length;
+    previous = index, index += 1
+  ) {
+    const a = polygon[index];
+    const b = polygon[previous];
+    const crosses =
+      a.lat > point.lat !== b.lat > point.lat &&
+      point.lng <
+        ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng;
+
+    if (crosses) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+};
+
+/** Moves a point by the given offsets in meters (north and east positive). */
+export const offsetLatLng = (
+  point: LatLngLiteral,
+  northMeters: number,
+  eastMeters: number
+): LatLngLiteral => ({
+  lat: point.lat + (northMeters / EARTH_RADIUS_METERS) * (180 / Math.PI),
+  lng:
+    point.lng +
+    (eastMeters / (EARTH_RADIUS_METERS * Math.cos(toRadians(point.lat)))) *
+      (180 / Math.PI),
+});
+
+const normalizeAngle = (angle: number) =>
+  Math.atan2(Math.sin(angle), Math.cos(angle));
+
+/**
+ * Outline of the area within `width` meters of a path, with rounded ends and
+ * outer corners. Inner corners fold over themselves, so fill it with the
+ * nonzero rule.
+ */
+export const getBufferedPolyline = (
+  path: LatLngLiteral[],
+  width: number,
+  stepsPerHalfTurn = 8
+): LatLngLiteral[] => {
+  if (path.length === 0) {
+    return [];
+  }
+
+  // Same local plane as the distance checks, in meters east and north.
+  const origin = path[0];
+  const metersPerDegree = (EARTH_RADIUS_METERS * Math.PI) / 180;
+  const scale = Math.cos(toRadians(origin.lat)) * metersPerDegree;
+  const points = path
+    .map((point) => ({
+      x: (point.lng - origin.lng) * scale,
+      y: (point.lat - origin.lat) * metersPerDegree,
+    }))
+    .filter(
+      (point, index, all) =>
+        index === 0 ||
+        point.x !== all[index - 1].x ||
+        point.y !== all[index - 1].y
+    );
+  const outline: { x: number; y: number }[] = [];
+  const addOffset = (center: { x: number; y: number }, angle: number) => {
+    outline.push({
+      x: center.x + width * Math.cos(angle),
+      y: center.y + width * Math.sin(angle),
+    });
+  };
+  // Points strictly between the two ends of the arc.
+  const addArc = (
+    center: { x: number; y: number },
+    from: number,
+    sweep: number
+  ) => {
+    const steps = Math.ceil((Math.abs(sweep) / Math.PI) * stepsPerHalfTurn);
+    for (let step = 1; step < steps; step += 1) {
+      addOffset(center, from + (sweep * step) / steps);
+    }
+  };
+
+  if (points.length === 1) {
+    addOffset(points[0], 0);
+    addArc(points[0], 0, 2 * Math.PI);
+  } else {
+    // The left side on the way out, then the left side on the way back,
+    // which is the right side of the path; each ends in a round cap.
+    [points, [...points].reverse()].forEach((side) => {
+      const headings = side
+        .slice(1)
+        .map((point, index) =>
+          Math.atan2(point.y - side[index].y, point.x - side[index].x)
+        );
+
+      headings.forEach((heading, index) => {
+        const normal = heading + Math.PI / 2;
+        const turn =
+          index > 0 ? normalizeAngle(heading - headings[index - 1]) : 0;
+        // Only a right turn leaves a gap on the left to round off.
+        if (turn < 0) {
+          addArc(side[index], normal - turn, turn);
+        }
+        addOffset(side[index], normal);
+        addOffset(side[index + 1], normal);
+      });
+      addArc(
+        side[side.length - 1],
+        headings[headings.length - 1] + Math.PI / 2,
+        -Math.PI
+      );
+    });
+  }
+
+  return outline.map(({ x, y }) => offsetLatLng(origin, y, x));
+};
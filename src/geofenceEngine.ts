@@ -0,0 +1,173 @@
+import type { LatLngLiteral } from "./geo";
+import {
+  evaluateGeofence,
+  type Geofence,
+  type GeofenceState,
+} from "./geofences";
+
+export type GeofenceEventType = "enter" | "exit" | "dwell";
+
+export type GeofenceEvent = {
+  type: GeofenceEventType;
+  geofence: Geofence;
+  position: LatLngLiteral;
+  distance: number;
+  timestamp: number;
+  /** Milliseconds spent inside the fence when the event fired. */
+  dwellTime: number;
+};
+
+export type GeofenceEventListener = (event: GeofenceEvent) => void;
+
+export type GeofenceEngineOptions = {
+  /** How far past the edge (meters) a fix must be before `enter` fires. */
+  enterMargin: number;
+  /** How far outside the edge (meters) a fix must be before `exit` fires. */
+  exitMargin: number;
+  /** Time inside (ms) after which a single `dwell` event fires per visit. */
+  dwellTime: number;
+};
+
+export type GeofenceEngine = {
+  setGeofences: (geofences: Geofence[]) => void;
+  update: (
+    lat: number,
+    lng: number,
+    timestamp?: number
+  ) => Record<string, GeofenceState>;
+  subscribe: (listener: GeofenceEventListener) => () => void;
+  dispose: () => void;
+};
+
+export const DEFAULT_GEOFENCE_ENGINE_OPTIONS: GeofenceEngineOptions = {
+  enterMargin: 0,
+  exitMargin: 5,
+  dwellTime: 60_000,
+};
+
+type Visit = {
+  inside: boolean;
+  enteredAt: number;
+  dwellTimerId: ReturnType<typeof setTimeout> | null;
+};
+
+export const createGeofenceEngine = (
+  options: Partial<GeofenceEngineOptions> = {}
+): GeofenceEngine => {
+  const { enterMargin, exitMargin, dwellTime } = {
+    ...DEFAULT_GEOFENCE_ENGINE_OPTIONS,
+    ...options,
+  };
+
+  const listeners = new Set<GeofenceEventListener>();
+  const visits = new Map<string, Visit>();
+  let geofences: Geofence[] = [];
+  let lastPosition: LatLngLiteral | null = null;
+  let lastStates: Record<string, GeofenceState> = {};
+
+  const emit = (event: GeofenceEvent) => {
+    listeners.forEach((listener) => {
+      listener(event);
+    });
+  };
+
+  const clearDwellTimer = (visit: Visit) => {
+    if (visit.dwellTimerId !== null) {
+      clearTimeout(visit.dwellTimerId);
+      visit.dwellTimerId = null;
+    }
+  };
+
+  const scheduleDwell = (geofence: Geofence, visit: Visit) => {
+    clearDwellTimer(visit);
+    visit.dwellTimerId = setTimeout(() => {
+      visit.dwellTimerId = null;
+      if (!visit.inside || !lastPosition) {
+        return;
+      }
+
+      const timestamp = Date.now();
+      emit({
+        type: "dwell",
+        geofence,
+        position: lastPosition,
+        distance: lastStates[geofence.id]?.distance ?? 0,
+        timestamp,
+        dwellTime: timestamp - visit.enteredAt,
+      });
+    }, dwellTime);
+  };
+
+  const setGeofences = (next: Geofence[]) => {
+    geofences = next;
+    const ids = new Set(next.map((geofence) => geofence.id));
+
+    visits.forEach((visit, id) => {
+      if (!ids.has(id)) {
+        clearDwellTimer(visit);
+        visits.delete(id);
+      }
+    });
+  };
+
+  const update = (lat: number, lng: number, timestamp = Date.now()) => {
+    const position = { lat, lng };
+    const states: Record<string, GeofenceState> = {};
+    lastPosition = position;
+
+    geofences.forEach((geofence) => {
+      const state = evaluateGeofence(geofence, lat, lng);
+      const visit = visits.get(geofence.id) ?? {
+        inside: false,
+        enteredAt: 0,
+        dwellTimerId: null,
+      };
+      visits.set(geofence.id, visit);
+
+      if (!visit.inside && state.boundaryDistance <= -enterMargin) {
+        visit.inside = true;
+        visit.enteredAt = timestamp;
+        scheduleDwell(geofence, visit);
+        emit({
+          type: "enter",
+          geofence,
+          position,
+          distance: state.distance,
+          timestamp,
+          dwellTime: 0,
+        });
+      } else if (visit.inside && state.boundaryDistance > exitMargin) {
+        visit.inside = false;
+        clearDwellTimer(visit);
+        emit({
+          type: "exit",
+          geofence,
+          position,
+          distance: state.distance,
+          timestamp,
+          dwellTime: timestamp - visit.enteredAt,
+        });
+      }
+
+      states[geofence.id] = { ...state, inside: visit.inside };
+    });
+
+    lastStates = states;
+    return states;
+  };
+
+  const subscribe = (listener: GeofenceEventListener) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const dispose = () => {
+    visits.forEach(clearDwellTimer);
+    visits.clear();
+    listeners.clear();
+  };
+
+  return { setGeofences, update, subscribe, dispose };
+};
@@ -0,0 +1,104 @@
+import L from "leaflet";
+import { getBufferedPolyline } from "./geo";
+import {
+  getGeofenceAnchor,
+  resolveGeofenceStyle,
+  type Geofence,
+} from "./geofences";
+
+export type GeofenceLayers = {
+  marker: L.Marker;
+  shape: L.Path;
+};
+
+const createShapeLayer = (geofence: Geofence): L.Path => {
+  // Colours the fence doesn't set itself come from the theme via CSS.
+  const style = {
+    ...resolveGeofenceStyle(geofence),
+    className: [
+      "geofence-shape",
+      !geofence.style?.color && "themed-stroke",
+      !geofence.style?.fillColor && "themed-fill",
+    ]
+      .filter(Boolean)
+      .join(" "),
+  };
+
+  switch (geofence.shape) {
+    case "circle":
+      return L.circle([geofence.center.lat, geofence.center.lng], {
+        radius: geofence.radius,
+        ...style,
+      });
+    case "polygon":
+      return L.polygon(
+        geofence.points.map((point) => L.latLng(point.lat, point.lng)),
+        style
+      );
+    case "corridor":
+      // Drawn at its full width; the outline overlaps itself at inner corners.
+      return L.polygon(
+        getBufferedPolyline(geofence.path, geofence.width).map((point) =>
+          L.latLng(point.lat, point.lng)
+        ),
+        { ...style, fillRule: "nonzero" }
+      );
+  }
+};
+
+export const createGeofenceLayers = (geofence: Geofence): GeofenceLayers => {
+  const anchor = getGeofenceAnchor(geofence);
+  const marker = L.marker([anchor.lat, anchor.lng], {
+    title: geofence.name,
+  }).bindTooltip(geofence.name, {
+    permanent: true,
+    className: "geofence-label",
+    direction: "top",
+    offset: L.point(0, -18),
+  });
+
+  return { marker, shape: createShapeLayer(geofence) };
+};
+
+/** Redraws existing layers for an edited geofence without recreating them. */
+export const updateGeofenceLayers = (
+  { marker, shape }: GeofenceLayers,
+  geofence: Geofence
+) => {
+  const anchor = getGeofenceAnchor(geofence);
+  marker.setLatLng([anchor.lat, anchor.lng]);
+
+  if (geofence.shape === "circle" && shape instanceof L.Circle) {
+    shape.setLatLng([geofence.center.lat, geofence.center.lng]);
+    shape.setRadius(geofence.radius);
+  } else if (shape instanceof L.Polyline) {
+    const points =
+      geofence.shape === "polygon"
+        ? geofence.points
+        : geofence.shape === "corridor"
+        ? getBufferedPolyline(geofence.path, geofence.width)
+        : [];
+    shape.setLatLngs(points.map((point) => L.latLng(point.lat, point.lng)));
+  }
+};
+
+export type GeofenceQuestState = "target" | "done" | "locked";
+
+const QUEST_STATE_CLASSES = ["quest-target", "quest-done", "quest-locked"];
+
+/** Marks a fence as the next quest target, completed or still locked. */
+export const setGeofenceQuestState = (
+  { marker, shape }: GeofenceLayers,
+  state: GeofenceQuestState | null
+) => {
+  const element = shape.getElement() as HTMLElement | undefined;
+  if (element) {
+    QUEST_STATE_CLASSES.forEach((className) => {
+      L.DomUtil.removeClass(element, className);
+    });
+    if (state) {
+      L.DomUtil.addClass(element, `quest-${state}`);
+    }
+  }
+  marker.setOpacity(state === "locked" ? 0.45 : 1);
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { evaluateGeofence, isGeofence, type Geofence } from "./geofences";
+import { migratePersistedState } from "./storage/appStore";
+
+const triangle: Geofence = {
+  id: "triangle",
+  name: "Triangle",
+  shape: "polygon",
+  points: [
+    { lat: 51.13, lng: 71.38 },
+    { lat: 51.14, lng: 71.38 },
+    { lat: 51.13, lng: 71.39 },
+  ],
+};
+
+describe("evaluateGeofence", () => {
+  it("finds a point inside a polygon", () => {
+    expect(evaluateGeofence(triangle, 51.132, 71.382).inside).toBe(true);
+  });
+
+  it("treats a polygon without enough points as never entered", () => {
+    const empty: Geofence = { ...triangle, points: [] };
+    expect(evaluateGeofence(empty, 51.132, 71.382)).toEqual({
+      id: "triangle",
+      inside: false,
+      distance: Infinity,
+      boundaryDistance: Infinity,
+    });
+
+    const line: Geofence = { ...triangle, points: triangle.points.slice(0, 2) };
+    expect(evaluateGeofence(line, 51.132, 71.382).inside).toBe(false);
+  });
+});
+
+describe("isGeofence", () => {
+  it("rejects polygons with fewer than 3 points", () => {
+    expect(isGeofence(triangle)).toBe(true);
+    expect(
+      isGeofence({ ...triangle, points: triangle.points.slice(0, 2) })
+    ).toBe(false);
+  });
+
+  it("drops malformed checkpoints from stored state", () => {
+    const state = migratePersistedState({
+      version: 2,
+      settings: {},
+      customPresets: [],
+      checkpoints: [triangle, { ...triangle, id: "broken", points: [] }, null],
+    });
+    expect(state.checkpoints.map((item) => item.id)).toEqual(["triangle"]);
+  });
+});
@@ -0,0 +1,223 @@
+import {
+  getDistanceInMeters,
+  getDistanceToPolylineInMeters,
+  isPointInPolygon,
+  type LatLngLiteral,
+} from "./geo";
+
+export type GeofenceStyle = {
+  color: string;
+  fillColor: string;
+  weight: number;
+  opacity: number;
+  fillOpacity: number;
+  dashArray?: string;
+};
+
+type GeofenceBase = {
+  id: string;
+  name: string;
+  style?: Partial<GeofenceStyle>;
+};
+
+export type CircleGeofence = GeofenceBase & {
+  shape: "circle";
+  center: LatLngLiteral;
+  radius: number;
+};
+
+export type PolygonGeofence = GeofenceBase & {
+  shape: "polygon";
+  points: LatLngLiteral[];
+};
+
+export type CorridorGeofence = GeofenceBase & {
+  shape: "corridor";
+  path: LatLngLiteral[];
+  /** Maximum distance from the path, in meters, that still counts as inside. */
+  width: number;
+};
+
+export type Geofence = CircleGeofence | PolygonGeofence | CorridorGeofence;
+
+export type GeofenceState = {
+  id: string;
+  inside: boolean;
+  /**
+   * Meters from the fix to the circle center, or to the nearest polygon edge
+   * or corridor path point.
+   */
+  distance: number;
+  /** Signed distance to the fence edge in meters, negative when inside. */
+  boundaryDistance: number;
+};
+
+export const DEFAULT_GEOFENCE_STYLE: GeofenceStyle = {
+  color: "#f97316",
+  weight: 2,
+  opacity: 0.9,
+  fillColor: "#fb923c",
+  fillOpacity: 0.15,
+  dashArray: "6 6",
+};
+
+export const DEFAULT_GEOFENCES: Geofence[] = [
+  {
+    id: "checkpoint",
+    name: "Checkpoint",
+    shape: "circle",
+    center: { lat: 51.131849, lng: 71.381401 },
+    radius: 20,
+  },
+];
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const isLatLng = (value: unknown): value is LatLngLiteral => {
+  const point = value as Partial<LatLngLiteral> | null;
+  return (
+    typeof point === "object" &&
+    point !== null &&
+    isFiniteNumber(point.lat) &&
+    isFiniteNumber(point.lng)
+  );
+};
+
+/**
+ * Checks a checkpoint read back from storage. A polygon needs at least three
+ * points and a corridor two, or there is nothing to be inside of.
+ */
+export const isGeofence = (value: unknown): value is Geofence => {
+  const geofence = value as Record<string, unknown> | null;
+  if (
+    typeof geofence !== "object" ||
+    geofence === null ||
+    typeof geofence.id !== "string" ||
+    typeof geofence.name !== "string"
+  ) {
+    return false;
+  }
+
+  switch (geofence.shape) {
+    case "circle":
+      return (
+        isLatLng(geofence.center) &&
+        isFiniteNumber(geofence.radius) &&
+        geofence.radius > 0
+      );
+    case "polygon":
+      return (
+        Array.isArray(geofence.points) &&
+        geofence.points.length >= 3 &&
+        geofence.points.every(isLatLng)
+      );
+    case "corridor":
+      return (
+        Array.isArray(geofence.path) &&
+        geofence.path.length >= 2 &&
+        geofence.path.every(isLatLng) &&
+        isFiniteNumber(geofence.width) &&
+        geofence.width > 0
+      );
+    default:
+      return false;
+  }
+};
+
+export const resolveGeofenceStyle = (geofence: Geofence): GeofenceStyle => ({
+  ...DEFAULT_GEOFENCE_STYLE,
+  ...geofence.style,
+});
+
+/** Point used to place the geofence label marker. */
+export const getGeofenceAnchor = (geofence: Geofence): LatLngLiteral => {
+  switch (geofence.shape) {
+    case "circle":
+      return geofence.center;
+    case "polygon": {
+      const total = geofence.points.reduce(
+        (sum, point) => ({
+          lat: sum.lat + point.lat,
+          lng: sum.lng + point.lng,
+        }),
+        { lat: 0, lng: 0 }
+      );
+      const count = Math.max(geofence.points.length, 1);
+      return { lat: total.lat / count, lng: total.lng / count };
+    }
+    case "corridor":
+      return geofence.path[Math.floor(geofence.path.length / 2)];
+  }
+};
+
+export const evaluateGeofence = (
+  geofence: Geofence,
+  lat: number,
+  lng: number
+): GeofenceState => {
+  const point = { lat, lng };
+
+  switch (geofence.shape) {
+    case "circle": {
+      const distance = getDistanceInMeters(
+        lat,
+        lng,
+        geofence.center.lat,
+        geofence.center.lng
+      );
+
+      return {
+        id: geofence.id,
+        inside: distance <= geofence.radius,
+        distance,
+        boundaryDistance: distance - geofence.radius,
+      };
+    }
+    case "polygon": {
+      if (geofence.points.length < 3) {
+        // No area to stand in; report how far the stray points are.
+        const distance = getDistanceToPolylineInMeters(point, geofence.points);
+        return {
+          id: geofence.id,
+          inside: false,
+          distance,
+          boundaryDistance: distance,
+        };
+      }
+
+      const ring = [...geofence.points, geofence.points[0]];
+      const distance = getDistanceToPolylineInMeters(point, ring);
+      const inside = isPointInPolygon(point, geofence.points);
+
+      return {
+        id: geofence.id,
+        inside,
+        distance,
+        boundaryDistance: inside ? -distance : distance,
+      };
+    }
+    case "corridor": {
+      const distance = getDistanceToPolylineInMeters(point, geofence.path);
+
+      return {
+        id: geofence.id,
+        inside: distance <= geofence.width,
+        distance,
+        boundaryDistance: distance - geofence.width,
+      };
+    }
+  }
+};
+
+export const evaluateGeofences = (
+  geofences: Geofence[],
+  lat: number,
+  lng: number
+): Record<string, GeofenceState> =>
+  Object.fromEntries(
+    geofences.map((geofence) => [
+      geofence.id,
+      evaluateGeofence(geofence, lat, lng),
+    ])
+  );
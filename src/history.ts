@@ -0,0 +1,164 @@
+import type { HistoryEvent, HistoryFix } from "./storage/historyStore";
+
+/** Edge length of a heatmap cell in meters. */
+export const HEATMAP_CELL_SIZE = 25;
+
+const METERS_PER_DEGREE = 111_320;
+
+export type HeatmapCell = {
+  /** Stable per grid position, for updating a drawn cell in place. */
+  key: string;
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+  count: number;
+  /** count relative to the busiest cell, in (0, 1]. */
+  weight: number;
+};
+
+export type CheckpointStats = {
+  checkpointId: string;
+  name: string;
+  visits: number;
+  /** Total milliseconds spent inside across visits. */
+  dwellTime: number;
+  lastVisitAt: number;
+};
+
+const padDatePart = (value: number) => String(value).padStart(2, "0");
+
+/** Local calendar day as YYYY-MM-DD, the format of `<input type="date">`. */
+export const toDayString = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${padDatePart(
+    date.getMonth() + 1
+  )}-${padDatePart(date.getDate())}`;
+};
+
+/** Start and end (exclusive) of a local day; null for a malformed day. */
+export const getDayRange = (day: string) => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(day);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, date] = match.map(Number);
+  return {
+    from: new Date(year, month - 1, date).getTime(),
+    to: new Date(year, month - 1, date + 1).getTime(),
+  };
+};
+
+/** Index of the last fix at or before `time`, or -1 if there is none. */
+export const findFixIndexAt = (fixes: HistoryFix[], time: number) => {
+  let low = 0;
+  let high = fixes.length - 1;
+  let found = -1;
+
+  while (low <= high) {
+    const middle = Math.floor((low + high) / 2);
+    if (fixes[middle].timestamp <= time) {
+      found = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  return found;
+};
+
+const getColumnWidth = (row: number, latStep: number) =>
+  latStep / Math.max(Math.cos(((row + 0.5) * latStep * Math.PI) / 180), 0.01);
+
+export type HeatmapGrid = {
+  add: (fix: Pick<HistoryFix, "lat" | "lng">) => void;
+  getCells: () => HeatmapCell[];
+};
+
+/**
+ * Bins fixes into a grid of roughly square cells. Columns are sized per row so
+ * cells keep their width away from the equator. Fixes can be added as they
+ * arrive, so the history never has to be read again.
+ */
+export const createHeatmapGrid = (
+  cellSize = HEATMAP_CELL_SIZE
+): HeatmapGrid => {
+  const latStep = cellSize / METERS_PER_DEGREE;
+  const counts = new Map<string, { row: number; column: number; n: number }>();
+  let max = 0;
+
+  return {
+    add: ({ lat, lng }) => {
+      const row = Math.floor(lat / latStep);
+      const column = Math.floor(lng / getColumnWidth(row, latStep));
+      const key = `${row}:${column}`;
+      const cell = counts.get(key) ?? { row, column, n: 0 };
+      cell.n += 1;
+      counts.set(key, cell);
+      max = Math.max(max, cell.n);
+    },
+    getCells: () =>
+      [...counts].map(([key, { row, column, n }]) => {
+        const lngStep = getColumnWidth(row, latStep);
+        return {
+          key,
+          south: row * latStep,
+          north: (row + 1) * latStep,
+          west: column * lngStep,
+          east: (column + 1) * lngStep,
+          count: n,
+          weight: n / max,
+        };
+      }),
+  };
+};
+
+/**
+ * Visit count and dwell time per checkpoint. A visit is closed by its exit
+ * event; one still open counts up to `now` only for checkpoints the user is
+ * inside right now, since the app may have been closed mid-visit.
+ */
+export const getCheckpointStats = (
+  events: HistoryEvent[],
+  insideIds: ReadonlySet<string>,
+  now = Date.now()
+): CheckpointStats[] => {
+  const stats = new Map<string, CheckpointStats>();
+  const openVisits = new Map<string, number>();
+
+  [...events]
+    .sort((first, second) => first.timestamp - second.timestamp)
+    .forEach((event) => {
+      const entry = stats.get(event.checkpointId) ?? {
+        checkpointId: event.checkpointId,
+        name: event.checkpointName,
+        visits: 0,
+        dwellTime: 0,
+        lastVisitAt: event.timestamp,
+      };
+      entry.name = event.checkpointName;
+      stats.set(event.checkpointId, entry);
+
+      if (event.type === "enter") {
+        entry.visits += 1;
+        entry.lastVisitAt = event.timestamp;
+        openVisits.set(event.checkpointId, event.timestamp);
+      } else if (event.type === "exit") {
+        entry.dwellTime += event.dwellTime;
+        openVisits.delete(event.checkpointId);
+      }
+    });
+
+  openVisits.forEach((enteredAt, id) => {
+    const entry = stats.get(id);
+    if (entry && insideIds.has(id)) {
+      entry.dwellTime += Math.max(now - enteredAt, 0);
+    }
+  });
+
+  return [...stats.values()].sort(
+    (first, second) => second.lastVisitAt - first.lastVisitAt
+  );
+};
@@ -0,0 +1,49 @@
+import L from "leaflet";
+import type { HeatmapCell } from "./history";
+
+export type HeatmapLayer = {
+  group: L.LayerGroup;
+  renderer: L.Canvas;
+  rectangles: Map<string, L.Rectangle>;
+};
+
+/** Yellow for the quietest cells through red for the busiest. */
+const getHeatStyle = (weight: number): L.PathOptions => ({
+  fillColor: `hsl(${Math.round(60 - 60 * weight)}, 95%, 50%)`,
+  fillOpacity: 0.2 + 0.5 * weight,
+});
+
+export const createHeatmapLayer = (): HeatmapLayer => ({
+  group: L.layerGroup(),
+  // Canvas keeps thousands of cells cheap compared to one SVG node each.
+  renderer: L.canvas({ padding: 0.5 }),
+  rectangles: new Map(),
+});
+
+/**
+ * Restyles drawn cells and adds new ones. Cells are only ever added: the grid
+ * is rebuilt from scratch when history is removed.
+ */
+export const updateHeatmapLayer = (
+  layer: HeatmapLayer,
+  cells: HeatmapCell[]
+) => {
+  cells.forEach((cell) => {
+    const style = getHeatStyle(cell.weight);
+    const existing = layer.rectangles.get(cell.key);
+    if (existing) {
+      existing.setStyle(style);
+      return;
+    }
+
+    const rectangle = L.rectangle(
+      [
+        [cell.south, cell.west],
+        [cell.north, cell.east],
+      ],
+      { renderer: layer.renderer, stroke: false, interactive: false, ...style }
+    );
+    layer.rectangles.set(cell.key, rectangle);
+    layer.group.addLayer(rectangle);
+  });
+};
@@ -0,0 +1,84 @@
+import { getDistanceInMeters } from "../geo";
+import type { LocationFix } from "./types";
+
+export type AdaptivePollingOptions = {
+  /** Interval used before any speed or geofence information is known. */
+  baseInterval: number;
+  minInterval: number;
+  maxInterval: number;
+  /** Upper bound for the exponential backoff after errors. */
+  maxErrorInterval: number;
+  /** Poll again after this share of the estimated time to reach a fence edge. */
+  boundaryFraction: number;
+  /** Speeds below this (m/s) are treated as standing still. */
+  stationarySpeed: number;
+};
+
+export type AdaptivePolling = {
+  observeFix: (fix: LocationFix) => void;
+  /** Distance in meters to the closest geofence edge, null when there are none. */
+  setBoundaryDistance: (distance: number | null) => void;
+  getInterval: (consecutiveErrors: number) => number;
+};
+
+export const DEFAULT_ADAPTIVE_POLLING_OPTIONS: AdaptivePollingOptions = {
+  baseInterval: 5000,
+  minInterval: 2000,
+  maxInterval: 30_000,
+  maxErrorInterval: 60_000,
+  boundaryFraction: 0.25,
+  stationarySpeed: 0.5,
+};
+
+export const createAdaptivePolling = (
+  options: Partial<AdaptivePollingOptions> = {}
+): AdaptivePolling => {
+  const settings = { ...DEFAULT_ADAPTIVE_POLLING_OPTIONS, ...options };
+  let lastFix: LocationFix | null = null;
+  let speed: number | null = null;
+  let boundaryDistance: number | null = null;
+
+  const clamp = (value: number) =>
+    Math.min(Math.max(value, settings.minInterval), settings.maxInterval);
+
+  const observeFix = (fix: LocationFix) => {
+    if (lastFix && fix.timestamp > lastFix.timestamp) {
+      const elapsed = (fix.timestamp - lastFix.timestamp) / 1000;
+      speed =
+        getDistanceInMeters(lastFix.lat, lastFix.lng, fix.lat, fix.lng) /
+        elapsed;
+    }
+    lastFix = fix;
+  };
+
+  const getInterval = (consecutiveErrors: number) => {
+    if (consecutiveErrors > 0) {
+      return Math.min(
+        settings.baseInterval * 2 ** consecutiveErrors,
+        settings.maxErrorInterval
+      );
+    }
+
+    if (speed === null) {
+      return settings.baseInterval;
+    }
+
+    if (boundaryDistance === null) {
+      return speed < settings.stationarySpeed
+        ? settings.maxInterval
+        : settings.baseInterval;
+    }
+
+    const timeToBoundary =
+      Math.abs(boundaryDistance) / Math.max(speed, settings.stationarySpeed);
+    return clamp(timeToBoundary * settings.boundaryFraction * 1000);
+  };
+
+  return {
+    observeFix,
+    setBoundaryDistance: (distance) => {
+      boundaryDistance = distance;
+    },
+    getInterval,
+  };
+};
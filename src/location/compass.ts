@@ -0,0 +1,160 @@
+import WebApp from "@twa-dev/sdk";
+import { createEmitter } from "./emitter";
+
+export type CompassSource = "telegram" | "browser";
+
+export type Compass = {
+  /**
+   * Starts the first available heading source. Call from a user gesture:
+   * iOS only grants orientation access in response to one.
+   */
+  start: () => Promise<CompassSource | null>;
+  stop: () => void;
+  /** Degrees clockwise from true north for the top of the screen. */
+  onHeading: (listener: (heading: number) => void) => () => void;
+};
+
+/** Bot API 8.0 surface that @twa-dev/sdk does not type yet. */
+type TelegramDeviceOrientation = {
+  isStarted: boolean;
+  absolute: boolean;
+  /** Radians, counter-clockwise around the screen normal. */
+  alpha: number | null;
+  start: (
+    params: { refresh_rate?: number; need_absolute?: boolean },
+    callback?: (started: boolean) => void
+  ) => void;
+  stop: (callback?: (stopped: boolean) => void) => void;
+};
+
+type TelegramOrientationWebApp = {
+  DeviceOrientation?: TelegramDeviceOrientation;
+  onEvent: (event: "deviceOrientationChanged", handler: () => void) => void;
+  offEvent: (event: "deviceOrientationChanged", handler: () => void) => void;
+};
+
+/** Safari exposes the compass directly instead of an absolute alpha. */
+type WebkitDeviceOrientationEvent = DeviceOrientationEvent & {
+  webkitCompassHeading?: number;
+};
+
+type PermissionedDeviceOrientationEvent = typeof DeviceOrientationEvent & {
+  requestPermission?: () => Promise<"granted" | "denied">;
+};
+
+const TELEGRAM_REFRESH_RATE = 100;
+
+const normalizeHeading = (value: number) => ((value % 360) + 360) % 360;
+
+// Headings are reported for the device's natural orientation; rotate them
+// to match the screen when it is turned to landscape.
+const getScreenAngle = () =>
+  typeof screen !== "undefined" ? screen.orientation?.angle ?? 0 : 0;
+
+const getTelegramOrientation = () => {
+  const app = WebApp as unknown as TelegramOrientationWebApp;
+  return WebApp.initData && WebApp.isVersionAtLeast("8.0")
+    ? { app, orientation: app.DeviceOrientation }
+    : null;
+};
+
+export const createCompass = (): Compass => {
+  const headings = createEmitter<number>();
+  let cleanup: (() => void) | null = null;
+
+  const emitAlpha = (alphaDegrees: number) => {
+    headings.emit(normalizeHeading(360 - alphaDegrees + getScreenAngle()));
+  };
+
+  const startTelegram = () =>
+    new Promise<boolean>((resolve) => {
+      const telegram = getTelegramOrientation();
+      const orientation = telegram?.orientation;
+      if (!telegram || !orientation) {
+        resolve(false);
+        return;
+      }
+
+      const handleChange = () => {
+        if (orientation.absolute && orientation.alpha !== null) {
+          emitAlpha((orientation.alpha * 180) / Math.PI);
+        }
+      };
+
+      orientation.start(
+        { refresh_rate: TELEGRAM_REFRESH_RATE, need_absolute: true },
+        (started) => {
+          if (!started) {
+            resolve(false);
+            return;
+          }
+
+          telegram.app.onEvent("deviceOrientationChanged", handleChange);
+          cleanup = () => {
+            telegram.app.offEvent("deviceOrientationChanged", handleChange);
+            orientation.stop();
+          };
+          resolve(true);
+        }
+      );
+    });
+
+  const startBrowser = async () => {
+    if (typeof DeviceOrientationEvent === "undefined") {
+      return false;
+    }
+
+    const { requestPermission } =
+      DeviceOrientationEvent as PermissionedDeviceOrientationEvent;
+    if (requestPermission) {
+      try {
+        if ((await requestPermission()) !== "granted") {
+          return false;
+        }
+      } catch (error) {
+        return false;
+      }
+    }
+
+    const handleOrientation = (event: WebkitDeviceOrientationEvent) => {
+      if (event.webkitCompassHeading !== undefined) {
+        headings.emit(
+          normalizeHeading(event.webkitCompassHeading + getScreenAngle())
+        );
+      } else if (event.absolute && event.alpha !== null) {
+        emitAlpha(event.alpha);
+      }
+    };
+    // Chrome only reports true north through the "absolute" variant.
+    const eventName =
+      "ondeviceorientationabsolute" in window
+        ? "deviceorientationabsolute"
+        : "deviceorientation";
+
+    window.addEventListener(eventName, handleOrientation);
+    cleanup = () => {
+      window.removeEventListener(eventName, handleOrientation);
+    };
+    return true;
+  };
+
+  const stop = () => {
+    cleanup?.();
+    cleanup = null;
+  };
+
+  return {
+    start: async () => {
+      stop();
+      if (await startTelegram()) {
+        return "telegram";
+      }
+      if (await startBrowser()) {
+        return "browser";
+      }
+      return null;
+    },
+    stop,
+    onHeading: headings.subscribe,
+  };
+};
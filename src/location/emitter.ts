@@ -0,0 +1,26 @@
+export type Emitter<T> = {
+  emit: (value: T) => void;
+  subscribe: (listener: (value: T) => void) => () => void;
+  clear: () => void;
+};
+
+export const createEmitter = <T>(): Emitter<T> => {
+  const listeners = new Set<(value: T) => void>();
+
+  return {
+    emit: (value) => {
+      listeners.forEach((listener) => {
+        listener(value);
+      });
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    clear: () => {
+      listeners.clear();
+    },
+  };
+};
@@ -0,0 +1,185 @@
+import { getDistanceInMeters } from "../geo";
+import type { LocationFix } from "./types";
+
+export type FixSmoothing = "off" | "kalman" | "weighted";
+
+export type FixFilterOptions = {
+  smoothing: FixSmoothing;
+  /** Expected movement noise for the Kalman filter, in m/s. */
+  processNoise: number;
+  /** Fixes implying a faster jump than this (m/s) are rejected. */
+  maxSpeed: number;
+  /** Reject fixes whose accuracy is this many times worse than the recent median. */
+  accuracyFactor: number;
+  /** Fixes kept for the weighted smoother and the accuracy median. */
+  historySize: number;
+  /** Consecutive rejections after which the filter gives in and resets. */
+  maxConsecutiveRejections: number;
+  /** Accuracy assumed when a fix does not report one, in meters. */
+  defaultAccuracy: number;
+};
+
+export type FixFilterResult =
+  | { accepted: true; fix: LocationFix; raw: LocationFix }
+  | { accepted: false; raw: LocationFix; reason: string };
+
+export type FixFilter = {
+  process: (fix: LocationFix) => FixFilterResult;
+  reset: () => void;
+};
+
+export const DEFAULT_FIX_FILTER_OPTIONS: FixFilterOptions = {
+  smoothing: "kalman",
+  processNoise: 3,
+  maxSpeed: 60,
+  accuracyFactor: 3,
+  historySize: 8,
+  maxConsecutiveRejections: 3,
+  defaultAccuracy: 25,
+};
+
+const WEIGHTED_SMOOTHING_HALF_LIFE = 10;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+};
+
+export const createFixFilter = (
+  options: Partial<FixFilterOptions> = {}
+): FixFilter => {
+  const settings = { ...DEFAULT_FIX_FILTER_OPTIONS, ...options };
+  let history: LocationFix[] = [];
+  let rejections = 0;
+  let kalman: {
+    lat: number;
+    lng: number;
+    variance: number;
+    timestamp: number;
+  } | null = null;
+
+  const accuracyOf = (fix: LocationFix) =>
+    fix.accuracy ?? settings.defaultAccuracy;
+
+  const getRejectionReason = (fix: LocationFix) => {
+    const previous = history[history.length - 1];
+    if (!previous) {
+      return null;
+    }
+
+    const elapsed = Math.max(
+      (fix.timestamp - previous.timestamp) / 1000,
+      0.001
+    );
+    const distance = getDistanceInMeters(
+      previous.lat,
+      previous.lng,
+      fix.lat,
+      fix.lng
+    );
+    const slack = accuracyOf(previous) + accuracyOf(fix);
+    const speed = Math.max(distance - slack, 0) / elapsed;
+
+    if (speed > settings.maxSpeed) {
+      return `implied speed ${Math.round(speed)} m/s exceeds ${
+        settings.maxSpeed
+      } m/s`;
+    }
+
+    const typicalAccuracy = median(history.map(accuracyOf));
+    if (accuracyOf(fix) > typicalAccuracy * settings.accuracyFactor) {
+      return `accuracy ±${Math.round(
+        accuracyOf(fix)
+      )} m is much worse than recent ±${Math.round(typicalAccuracy)} m`;
+    }
+
+    return null;
+  };
+
+  const smoothKalman = (fix: LocationFix): LocationFix => {
+    const measurementVariance = accuracyOf(fix) ** 2;
+
+    if (!kalman) {
+      kalman = {
+        lat: fix.lat,
+        lng: fix.lng,
+        variance: measurementVariance,
+        timestamp: fix.timestamp,
+      };
+      return fix;
+    }
+
+    const elapsed = Math.max((fix.timestamp - kalman.timestamp) / 1000, 0);
+    const predictedVariance =
+      kalman.variance + elapsed * settings.processNoise ** 2;
+    const gain = predictedVariance / (predictedVariance + measurementVariance);
+
+    kalman = {
+      lat: kalman.lat + gain * (fix.lat - kalman.lat),
+      lng: kalman.lng + gain * (fix.lng - kalman.lng),
+      variance: (1 - gain) * predictedVariance,
+      timestamp: fix.timestamp,
+    };
+
+    return {
+      ...fix,
+      lat: kalman.lat,
+      lng: kalman.lng,
+      accuracy: Math.sqrt(kalman.variance),
+    };
+  };
+
+  const smoothWeighted = (fix: LocationFix): LocationFix => {
+    const weighted = history.map((item) => {
+      const age = Math.max((fix.timestamp - item.timestamp) / 1000, 0);
+      const decay = 0.5 ** (age / WEIGHTED_SMOOTHING_HALF_LIFE);
+      return { item, weight: decay / Math.max(accuracyOf(item) ** 2, 1) };
+    });
+    const totalWeight = weighted.reduce((sum, { weight }) => sum + weight, 0);
+    const average = (pick: (item: LocationFix) => number) =>
+      weighted.reduce((sum, { item, weight }) => sum + pick(item) * weight, 0) /
+      totalWeight;
+
+    return {
+      ...fix,
+      lat: average((item) => item.lat),
+      lng: average((item) => item.lng),
+      accuracy: Math.min(accuracyOf(fix), Math.sqrt(1 / totalWeight)),
+    };
+  };
+
+  const reset = () => {
+    history = [];
+    rejections = 0;
+    kalman = null;
+  };
+
+  const process = (fix: LocationFix): FixFilterResult => {
+    if (settings.smoothing === "off") {
+      return { accepted: true, fix, raw: fix };
+    }
+
+    const reason = getRejectionReason(fix);
+    if (reason) {
+      rejections += 1;
+      if (rejections < settings.maxConsecutiveRejections) {
+        return { accepted: false, raw: fix, reason };
+      }
+
+      // Several outliers in a row usually mean the user really moved.
+      reset();
+    }
+
+    rejections = 0;
+    history = [...history, fix].slice(-settings.historySize);
+
+    const smoothed =
+      settings.smoothing === "kalman" ? smoothKalman(fix) : smoothWeighted(fix);
+    return { accepted: true, fix: smoothed, raw: fix };
+  };
+
+  return { process, reset };
+};
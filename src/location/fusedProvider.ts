@@ -0,0 +1,135 @@
+import { createProviderEvents } from "./providerEvents";
+import type { LocationFix, LocationProvider, LocationSourceId } from "./types";
+
+export type FusionOptions = {
+  /** Fixes older than this (ms) are ignored. */
+  maxAge: number;
+  /** How fast (m/s) an ageing fix loses confidence. */
+  stalenessSpeed: number;
+  /** Accuracy assumed when a source does not report one, in meters. */
+  defaultAccuracy: number;
+};
+
+export const DEFAULT_FUSION_OPTIONS: FusionOptions = {
+  maxAge: 30_000,
+  stalenessSpeed: 1.5,
+  defaultAccuracy: 50,
+};
+
+/**
+ * Blends the latest fix from each source by inverse variance, where a fix's
+ * effective error is its reported accuracy grown by its age.
+ */
+export const fuseFixes = (
+  fixes: LocationFix[],
+  now = Date.now(),
+  options: FusionOptions = DEFAULT_FUSION_OPTIONS
+): LocationFix | null => {
+  const weighted = fixes
+    .filter((fix) => now - fix.timestamp <= options.maxAge)
+    .map((fix) => {
+      const age = Math.max(now - fix.timestamp, 0) / 1000;
+      const error =
+        (fix.accuracy ?? options.defaultAccuracy) +
+        age * options.stalenessSpeed;
+      return { fix, weight: 1 / Math.max(error * error, 1) };
+    });
+
+  if (weighted.length === 0) {
+    return null;
+  }
+
+  const totalWeight = weighted.reduce((sum, item) => sum + item.weight, 0);
+  const average = (pick: (fix: LocationFix) => number) =>
+    weighted.reduce((sum, item) => sum + pick(item.fix) * item.weight, 0) /
+    totalWeight;
+
+  return {
+    lat: average((fix) => fix.lat),
+    lng: average((fix) => fix.lng),
+    accuracy: Math.sqrt(1 / totalWeight),
+    timestamp: Math.max(...weighted.map((item) => item.fix.timestamp)),
+    source: "fused",
+    contributors: weighted.map((item) => item.fix.source),
+  };
+};
+
+export const createFusedProvider = (
+  providers: LocationProvider[],
+  options: FusionOptions = DEFAULT_FUSION_OPTIONS
+): LocationProvider => {
+  const { emitFix, emitError, emitStatus, subscriptions } =
+    createProviderEvents();
+  const latestFixes = new Map<LocationSourceId, LocationFix>();
+  let running: Array<{ provider: LocationProvider; detach: () => void }> = [];
+
+  const attach = (provider: LocationProvider) => {
+    const unsubscribers = [
+      provider.onFix((fix) => {
+        latestFixes.set(fix.source, fix);
+        const fused = fuseFixes([...latestFixes.values()], Date.now(), options);
+        if (fused) {
+          emitFix(fused);
+        }
+      }),
+      provider.onError(emitError),
+    ];
+
+    return () => {
+      unsubscribers.forEach((unsubscribe) => {
+        unsubscribe();
+      });
+    };
+  };
+
+  const start = async () => {
+    const supported = providers.filter((provider) => provider.isSupported());
+    const results = await Promise.all(
+      supported.map(async (provider) => {
+        const detach = attach(provider);
+        if (await provider.start()) {
+          return { provider, detach };
+        }
+
+        detach();
+        return null;
+      })
+    );
+
+    running = results.flatMap((result) => (result ? [result] : []));
+    if (running.length === 0) {
+      return false;
+    }
+
+    emitStatus(
+      `Waiting for location from ${running
+        .map(({ provider }) => provider.id)
+        .join(" + ")}…`
+    );
+    return true;
+  };
+
+  const stop = () => {
+    running.forEach(({ provider, detach }) => {
+      provider.stop();
+      detach();
+    });
+    running = [];
+    latestFixes.clear();
+  };
+
+  return {
+    id: "fused",
+    capabilities: {
+      continuous: providers.some(
+        (provider) => provider.capabilities.continuous
+      ),
+      reportsAccuracy: true,
+      simulated: false,
+    },
+    isSupported: () => providers.some((provider) => provider.isSupported()),
+    start,
+    stop,
+    ...subscriptions,
+  };
+};
@@ -0,0 +1,60 @@
+import { createProviderEvents } from "./providerEvents";
+import type { LocationProvider } from "./types";
+
+export const createNavigatorProvider = (
+  options: PositionOptions = {
+    enableHighAccuracy: true,
+    maximumAge: 1000,
+    timeout: 10000,
+  }
+): LocationProvider => {
+  const { emitFix, emitError, emitStatus, subscriptions } =
+    createProviderEvents();
+  let watchId: number | null = null;
+
+  const isSupported = () =>
+    typeof navigator !== "undefined" && Boolean(navigator.geolocation);
+
+  const start = async () => {
+    if (!isSupported()) {
+      return false;
+    }
+
+    emitStatus("Waiting for GPS signal…");
+
+    watchId = navigator.geolocation.watchPosition(
+      (currentPosition) => {
+        const { latitude, longitude, accuracy } = currentPosition.coords;
+        emitFix({
+          lat: latitude,
+          lng: longitude,
+          accuracy,
+          timestamp: currentPosition.timestamp,
+          source: "navigator",
+        });
+      },
+      (geoError) => {
+        emitError(geoError);
+      },
+      options
+    );
+
+    return true;
+  };
+
+  const stop = () => {
+    if (watchId !== null) {
+      navigator.geolocation.clearWatch(watchId);
+      watchId = null;
+    }
+  };
+
+  return {
+    id: "navigator",
+    capabilities: { continuous: true, reportsAccuracy: true, simulated: false },
+    isSupported,
+    start,
+    stop,
+    ...subscriptions,
+  };
+};
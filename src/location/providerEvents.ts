@@ -0,0 +1,25 @@
+import { createEmitter } from "./emitter";
+import type { LocationFix, LocationProvider } from "./types";
+
+/** Shared fix/error/status plumbing for provider implementations. */
+export const createProviderEvents = () => {
+  const fixes = createEmitter<LocationFix>();
+  const errors = createEmitter<unknown>();
+  const statuses = createEmitter<string>();
+
+  const subscriptions: Pick<
+    LocationProvider,
+    "onFix" | "onError" | "onStatus"
+  > = {
+    onFix: fixes.subscribe,
+    onError: errors.subscribe,
+    onStatus: statuses.subscribe,
+  };
+
+  return {
+    emitFix: fixes.emit,
+    emitError: errors.emit,
+    emitStatus: statuses.emit,
+    subscriptions,
+  };
+};
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createFixFilter } from "./fixFilter";
+import { createScriptedProvider } from "./scriptedProvider";
+import { startFirstAvailableProvider } from "./startProviders";
+import type { LocationFix } from "./types";
+
+describe("createScriptedProvider", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("emits fixes and errors after their delays", async () => {
+    const provider = createScriptedProvider([
+      { delay: 1000, lat: 51.1, lng: 71.4, accuracy: 10 },
+      { delay: 500, error: new Error("lost signal") },
+    ]);
+    const fixes: LocationFix[] = [];
+    const errors: unknown[] = [];
+    provider.onFix((fix) => fixes.push(fix));
+    provider.onError((error) => errors.push(error));
+
+    await provider.start();
+    vi.advanceTimersByTime(999);
+    expect(fixes).toHaveLength(0);
+
+    vi.advanceTimersByTime(1);
+    expect(fixes).toEqual([
+      expect.objectContaining({ lat: 51.1, lng: 71.4, source: "scripted" }),
+    ]);
+
+    vi.advanceTimersByTime(500);
+    expect(errors).toEqual([new Error("lost signal")]);
+  });
+
+  it("stops emitting once stopped and loops when asked", async () => {
+    const once = createScriptedProvider([{ delay: 100, lat: 1, lng: 2 }]);
+    const looped = createScriptedProvider([{ delay: 100, lat: 1, lng: 2 }], {
+      loop: true,
+    });
+    const onceFix = vi.fn();
+    const loopedFix = vi.fn();
+    once.onFix(onceFix);
+    looped.onFix(loopedFix);
+
+    await once.start();
+    await looped.start();
+    vi.advanceTimersByTime(350);
+    expect(onceFix).toHaveBeenCalledTimes(1);
+    expect(loopedFix).toHaveBeenCalledTimes(3);
+
+    looped.stop();
+    vi.advanceTimersByTime(1000);
+    expect(loopedFix).toHaveBeenCalledTimes(3);
+  });
+
+  it("is picked up by provider start-up and feeds the fix filter", async () => {
+    // A steady walk with one teleport that the filter has to reject.
+    const provider = createScriptedProvider([
+      { delay: 1000, lat: 51.1, lng: 71.4, accuracy: 5 },
+      { delay: 1000, lat: 51.10001, lng: 71.4, accuracy: 5 },
+      { delay: 1000, lat: 51.2, lng: 71.4, accuracy: 5 },
+      { delay: 1000, lat: 51.10002, lng: 71.4, accuracy: 5 },
+    ]);
+    const filter = createFixFilter();
+    const accepted: LocationFix[] = [];
+    const rejected: string[] = [];
+
+    const started = await startFirstAvailableProvider([provider], (item) =>
+      item.onFix((fix) => {
+        const result = filter.process(fix);
+        if (result.accepted) {
+          accepted.push(result.raw);
+        } else {
+          rejected.push(result.reason);
+        }
+      })
+    );
+    expect(started).toBe(provider);
+
+    vi.advanceTimersByTime(4000);
+    expect(accepted.map((fix) => fix.lat)).toEqual([51.1, 51.10001, 51.10002]);
+    expect(rejected).toEqual([expect.stringMatching(/^implied speed/)]);
+  });
+});
@@ -0,0 +1,63 @@
+import { createProviderEvents } from "./providerEvents";
+import type { LocationProvider } from "./types";
+
+export type ScriptStep =
+  | { delay: number; lat: number; lng: number; accuracy?: number }
+  | { delay: number; error: unknown };
+
+/**
+ * Replays a fixed list of fixes and errors on timers. Meant for exercising
+ * tracking logic without a browser geolocation stack or a Telegram client.
+ */
+export const createScriptedProvider = (
+  steps: ScriptStep[],
+  { loop = false }: { loop?: boolean } = {}
+): LocationProvider => {
+  const { emitFix, emitError, subscriptions } = createProviderEvents();
+  let timerId: ReturnType<typeof setTimeout> | null = null;
+
+  const runStep = (index: number) => {
+    if (index >= steps.length) {
+      if (!loop || steps.length === 0) {
+        timerId = null;
+        return;
+      }
+      index = 0;
+    }
+
+    const step = steps[index];
+    timerId = setTimeout(() => {
+      if ("error" in step) {
+        emitError(step.error);
+      } else {
+        emitFix({
+          lat: step.lat,
+          lng: step.lng,
+          accuracy: step.accuracy,
+          timestamp: Date.now(),
+          source: "scripted",
+        });
+      }
+      runStep(index + 1);
+    }, step.delay);
+  };
+
+  return {
+    id: "scripted",
+    capabilities: { continuous: true, reportsAccuracy: true, simulated: true },
+    isSupported: () => true,
+    start: async () => {
+      if (timerId === null) {
+        runStep(0);
+      }
+      return true;
+    },
+    stop: () => {
+      if (timerId !== null) {
+        clearTimeout(timerId);
+        timerId = null;
+      }
+    },
+    ...subscriptions,
+  };
+};
@@ -0,0 +1,39 @@
+import { createProviderEvents } from "./providerEvents";
+import type { LocationProvider } from "./types";
+
+export type SimulatedProvider = LocationProvider & {
+  /** Emits a fix at the given position while the provider is started. */
+  push: (lat: number, lng: number, accuracy?: number) => void;
+};
+
+export const createSimulatedProvider = (): SimulatedProvider => {
+  const { emitFix, subscriptions } = createProviderEvents();
+  let running = false;
+
+  return {
+    id: "simulated",
+    capabilities: { continuous: false, reportsAccuracy: true, simulated: true },
+    isSupported: () => true,
+    start: async () => {
+      running = true;
+      return true;
+    },
+    stop: () => {
+      running = false;
+    },
+    push: (lat, lng, accuracy) => {
+      if (!running) {
+        return;
+      }
+
+      emitFix({
+        lat,
+        lng,
+        accuracy,
+        timestamp: Date.now(),
+        source: "simulated",
+      });
+    },
+    ...subscriptions,
+  };
+};
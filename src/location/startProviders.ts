@@ -0,0 +1,95 @@
+import { createFusedProvider } from "./fusedProvider";
+import { createNavigatorProvider } from "./navigatorProvider";
+import {
+  createTelegramProvider,
+  type TelegramProviderOptions,
+} from "./telegramProvider";
+import type { LocationProvider, LocationSourceId } from "./types";
+
+/** User-facing source choice; "auto" follows the configured fallback order. */
+export type LocationSourceMode = "auto" | "telegram" | "navigator" | "fused";
+
+export const DEFAULT_PROVIDER_ORDER: LocationSourceId[] = [
+  "telegram",
+  "navigator",
+];
+
+export type LiveProviderOptions = {
+  telegram?: TelegramProviderOptions;
+};
+
+const LIVE_PROVIDER_FACTORIES: Partial<
+  Record<LocationSourceId, (options: LiveProviderOptions) => LocationProvider>
+> = {
+  telegram: (options) => createTelegramProvider(options.telegram),
+  navigator: () => createNavigatorProvider(),
+};
+
+/**
+ * Reads the fallback order from `VITE_LOCATION_PROVIDERS`, a comma-separated
+ * list such as "navigator,telegram". Unknown ids are ignored.
+ */
+export const getConfiguredProviderOrder = (
+  value: string | undefined = import.meta.env.VITE_LOCATION_PROVIDERS
+): LocationSourceId[] => {
+  const order = (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(
+      (item): item is LocationSourceId => item in LIVE_PROVIDER_FACTORIES
+    );
+
+  return order.length > 0 ? order : DEFAULT_PROVIDER_ORDER;
+};
+
+export const createLiveProviders = (
+  order: LocationSourceId[] = getConfiguredProviderOrder(),
+  options: LiveProviderOptions = {}
+) =>
+  order.flatMap((id) => {
+    const factory = LIVE_PROVIDER_FACTORIES[id];
+    return factory ? [factory(options)] : [];
+  });
+
+export const createProvidersForMode = (
+  mode: LocationSourceMode,
+  options: LiveProviderOptions = {}
+): LocationProvider[] => {
+  switch (mode) {
+    case "auto":
+      return createLiveProviders(getConfiguredProviderOrder(), options);
+    case "telegram":
+    case "navigator":
+      return createLiveProviders([mode], options);
+    case "fused":
+      return [
+        createFusedProvider(
+          createLiveProviders(["telegram", "navigator"], options)
+        ),
+      ];
+  }
+};
+
+/**
+ * Starts the first supported provider in `providers`, falling through to the
+ * next one when a provider is unsupported or fails to start.
+ */
+export const startFirstAvailableProvider = async (
+  providers: LocationProvider[],
+  beforeStart?: (provider: LocationProvider) => () => void
+): Promise<LocationProvider | null> => {
+  for (const provider of providers) {
+    if (!provider.isSupported()) {
+      continue;
+    }
+
+    const detach = beforeStart?.(provider);
+    if (await provider.start()) {
+      return provider;
+    }
+
+    detach?.();
+  }
+
+  return null;
+};
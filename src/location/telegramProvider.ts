@@ -0,0 +1,174 @@
+import { locationManager } from "@telegram-apps/sdk";
+import { createProviderEvents } from "./providerEvents";
+import type { LocationProvider } from "./types";
+
+export const TELEGRAM_POLL_INTERVAL = 5000;
+
+export type TelegramProviderOptions = {
+  /** Delay before the next request, given the number of consecutive errors. */
+  getPollInterval?: (consecutiveErrors: number) => number;
+  /** Called with each scheduled delay, or null while polling is paused. */
+  onPollScheduled?: (delay: number | null) => void;
+};
+
+export const createTelegramProvider = ({
+  getPollInterval = () => TELEGRAM_POLL_INTERVAL,
+  onPollScheduled,
+}: TelegramProviderOptions = {}): LocationProvider => {
+  const { emitFix, emitError, emitStatus, subscriptions } =
+    createProviderEvents();
+
+  const controller: {
+    stopped: boolean;
+    mountedByUs: boolean;
+    consecutiveErrors: number;
+    request: { abort?: () => void } | null;
+    timerId: ReturnType<typeof setTimeout> | null;
+  } = {
+    stopped: true,
+    mountedByUs: false,
+    consecutiveErrors: 0,
+    request: null,
+    timerId: null,
+  };
+
+  const isHidden = () =>
+    typeof document !== "undefined" && document.visibilityState === "hidden";
+
+  const schedule = () => {
+    if (controller.stopped) {
+      return;
+    }
+
+    if (isHidden()) {
+      onPollScheduled?.(null);
+      return;
+    }
+
+    const delay = getPollInterval(controller.consecutiveErrors);
+    controller.timerId = setTimeout(poll, delay);
+    onPollScheduled?.(delay);
+  };
+
+  const handleVisibilityChange = () => {
+    if (controller.stopped || isHidden()) {
+      return;
+    }
+
+    // Resume right away: the last fix is as old as the time spent hidden.
+    if (controller.timerId !== null) {
+      clearTimeout(controller.timerId);
+      controller.timerId = null;
+    }
+    if (!controller.request) {
+      poll();
+    }
+  };
+
+  const poll = async () => {
+    controller.timerId = null;
+    if (controller.stopped) {
+      return;
+    }
+
+    try {
+      const request = locationManager.requestLocation();
+      controller.request = request;
+      const location = await request;
+      controller.request = null;
+
+      if (controller.stopped) {
+        return;
+      }
+
+      const latitude = Number(location?.latitude);
+      const longitude = Number(location?.longitude);
+      const accuracy = Number(location?.horizontal_accuracy);
+
+      if (Number.isFinite(latitude) && Number.isFinite(longitude)) {
+        controller.consecutiveErrors = 0;
+        emitFix({
+          lat: latitude,
+          lng: longitude,
+          accuracy: Number.isFinite(accuracy) ? accuracy : undefined,
+          timestamp: Date.now(),
+          source: "telegram",
+        });
+      } else {
+        controller.consecutiveErrors += 1;
+        emitError(new Error("Invalid location data received from Telegram."));
+      }
+    } catch (error) {
+      controller.request = null;
+      if (controller.stopped) {
+        return;
+      }
+
+      controller.consecutiveErrors += 1;
+      emitError(error);
+    } finally {
+      schedule();
+    }
+  };
+
+  const start = async () => {
+    if (!locationManager.isSupported()) {
+      return false;
+    }
+
+    controller.mountedByUs = false;
+
+    if (!locationManager.isMounted()) {
+      if (!locationManager.mount.isAvailable()) {
+        return false;
+      }
+
+      try {
+        emitStatus("Connecting to Telegram location…");
+        const mountPromise = locationManager.mount();
+        controller.mountedByUs = true;
+        await mountPromise;
+      } catch (error) {
+        emitError(error);
+        return false;
+      }
+    }
+
+    emitStatus("Waiting for Telegram location…");
+    controller.stopped = false;
+    controller.consecutiveErrors = 0;
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    poll();
+
+    return true;
+  };
+
+  const stop = () => {
+    controller.stopped = true;
+    document.removeEventListener("visibilitychange", handleVisibilityChange);
+    onPollScheduled?.(null);
+    if (controller.timerId !== null) {
+      clearTimeout(controller.timerId);
+      controller.timerId = null;
+    }
+    controller.request?.abort?.();
+    controller.request = null;
+    if (controller.mountedByUs && locationManager.isMounted()) {
+      locationManager.unmount();
+    }
+    controller.mountedByUs = false;
+  };
+
+  return {
+    id: "telegram",
+    capabilities: {
+      continuous: false,
+      reportsAccuracy: true,
+      simulated: false,
+    },
+    isSupported: () => locationManager.isSupported(),
+    start,
+    stop,
+    ...subscriptions,
+  };
+};
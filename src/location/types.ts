@@ -0,0 +1,36 @@
+export type LocationSourceId =
+  | "telegram"
+  | "navigator"
+  | "fused"
+  | "simulated"
+  | "scripted";
+
+export type LocationFix = {
+  lat: number;
+  lng: number;
+  /** Reported accuracy radius in meters, when the source provides one. */
+  accuracy?: number;
+  timestamp: number;
+  source: LocationSourceId;
+  /** Sources blended into a fused fix. */
+  contributors?: LocationSourceId[];
+};
+
+export type LocationProviderCapabilities = {
+  /** Pushes fixes on its own instead of needing explicit requests. */
+  continuous: boolean;
+  reportsAccuracy: boolean;
+  simulated: boolean;
+};
+
+export type LocationProvider = {
+  id: LocationSourceId;
+  capabilities: LocationProviderCapabilities;
+  isSupported: () => boolean;
+  /** Resolves to false when the source could not be started. */
+  start: () => Promise<boolean>;
+  stop: () => void;
+  onFix: (listener: (fix: LocationFix) => void) => () => void;
+  onError: (listener: (error: unknown) => void) => () => void;
+  onStatus: (listener: (message: string) => void) => () => void;
+};
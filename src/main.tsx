@@ -2,11 +2,16 @@ import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
+import { registerTileCache } from './tileCache'
 
 import WebApp from '@twa-dev/sdk'
 
 WebApp.ready();
 
+registerTileCache().catch((error) => {
+  console.warn('Offline tile cache is unavailable', error)
+})
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <App />
@@ -0,0 +1,33 @@
+import L from "leaflet";
+
+export type MapMenuItem = {
+  label: string;
+  onSelect: () => void;
+};
+
+/**
+ * Opens a small action menu in a popup at `latLng`. Selecting an item closes
+ * the popup before running its action. Returns the popup so callers can
+ * close it early.
+ */
+export const openMapMenu = (
+  map: L.Map,
+  latLng: L.LatLngExpression,
+  items: MapMenuItem[]
+) => {
+  const container = L.DomUtil.create("div", "map-menu");
+  const popup = L.popup({ closeButton: false, minWidth: 160 });
+
+  items.forEach(({ label, onSelect }) => {
+    const button = L.DomUtil.create("button", "map-menu-item", container);
+    button.type = "button";
+    button.textContent = label;
+    L.DomEvent.on(button, "click", (event) => {
+      L.DomEvent.stop(event);
+      map.closePopup(popup);
+      onSelect();
+    });
+  });
+
+  return popup.setLatLng(latLng).setContent(container).openOn(map);
+};
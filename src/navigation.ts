@@ -0,0 +1,137 @@
+import {
+  getDistanceInMeters,
+  getInitialBearing,
+  type LatLngLiteral,
+} from "./geo";
+import {
+  evaluateGeofence,
+  getGeofenceAnchor,
+  type Geofence,
+} from "./geofences";
+
+/** Assumed pace (m/s) while the user stands still or moves slower. */
+export const WALKING_SPEED = 1.4;
+
+const SPEED_SMOOTHING = 0.3;
+/** Fixes closer together than this give useless speeds. */
+const MIN_SPEED_INTERVAL = 1000;
+const MAX_PLAUSIBLE_SPEED = 100;
+const COMPASS_POINTS = ["N", "NE", "E", "SE", "S", "SW", "W", "NW"];
+
+export type TimedPosition = LatLngLiteral & { timestamp?: number };
+
+export type NavigationInfo = {
+  geofence: Geofence;
+  inside: boolean;
+  /** Meters to the fence edge; 0 once inside. */
+  distance: number;
+  /** Initial great-circle bearing to the fence anchor, degrees from north. */
+  bearing: number;
+  /** Seconds to the edge at `speed`. */
+  eta: number;
+  speed: number;
+};
+
+export const formatDistance = (meters: number) =>
+  meters >= 1000
+    ? `${(meters / 1000).toFixed(2)} km`
+    : `${Math.round(meters)} m`;
+
+export const getCompassPoint = (bearing: number) =>
+  COMPASS_POINTS[Math.round(bearing / 45) % COMPASS_POINTS.length];
+
+/**
+ * Smooths ground speed over consecutive fixes. Fixes arriving too quickly are
+ * measured against the last one used, and jumps faster than any plausible
+ * movement (simulator teleports) are ignored.
+ */
+export const createSpeedEstimator = () => {
+  let anchor: TimedPosition | null = null;
+  let speed: number | null = null;
+
+  return {
+    observe: (position: TimedPosition) => {
+      if (position.timestamp === undefined) {
+        return speed;
+      }
+      if (!anchor || anchor.timestamp === undefined) {
+        anchor = position;
+        return speed;
+      }
+
+      const interval = position.timestamp - anchor.timestamp;
+      if (interval < MIN_SPEED_INTERVAL) {
+        return speed;
+      }
+
+      const measured =
+        getDistanceInMeters(
+          anchor.lat,
+          anchor.lng,
+          position.lat,
+          position.lng
+        ) /
+        (interval / 1000);
+      anchor = position;
+      if (measured <= MAX_PLAUSIBLE_SPEED) {
+        speed =
+          speed === null
+            ? measured
+            : speed + (measured - speed) * SPEED_SMOOTHING;
+      }
+      return speed;
+    },
+  };
+};
+
+/** The preferred checkpoint when it exists, otherwise the nearest one. */
+export const pickNavigationTarget = (
+  geofences: Geofence[],
+  position: LatLngLiteral,
+  preferredId: string | null
+) => {
+  const preferred = geofences.find((item) => item.id === preferredId);
+  if (preferred) {
+    return preferred;
+  }
+
+  let nearest: Geofence | null = null;
+  let nearestDistance = Infinity;
+  geofences.forEach((geofence) => {
+    const { boundaryDistance } = evaluateGeofence(
+      geofence,
+      position.lat,
+      position.lng
+    );
+    if (boundaryDistance < nearestDistance) {
+      nearest = geofence;
+      nearestDistance = boundaryDistance;
+    }
+  });
+  return nearest as Geofence | null;
+};
+
+export const getNavigationInfo = (
+  geofence: Geofence,
+  position: LatLngLiteral,
+  speed: number | null
+): NavigationInfo => {
+  const state = evaluateGeofence(geofence, position.lat, position.lng);
+  const anchor = getGeofenceAnchor(geofence);
+  const distance = Math.max(state.boundaryDistance, 0);
+  const pace = Math.max(speed ?? 0, WALKING_SPEED);
+
+  return {
+    geofence,
+    inside: state.inside,
+    distance,
+    bearing: getInitialBearing(
+      position.lat,
+      position.lng,
+      anchor.lat,
+      anchor.lng
+    ),
+    eta: distance / pace,
+    speed: pace,
+  };
+};
@@ -0,0 +1,28 @@
+export type LocationPreset = {
+  id: string;
+  label: string;
+  lat: number;
+  lng: number;
+  isCurrent?: boolean;
+};
+
+export const LOCATION_PRESETS: LocationPreset[] = [
+  {
+    id: "current",
+    label: "- Current location -",
+    lat: 0,
+    lng: 0,
+    isCurrent: true,
+  },
+  {
+    id: "san-francisco",
+    label: "San Francisco",
+    lat: 37.774929,
+    lng: -122.419416,
+  },
+  { id: "new-york", label: "New York City", lat: 40.712776, lng: -74.005974 },
+  { id: "london", label: "London", lat: 51.507351, lng: -0.127758 },
+  { id: "tokyo", label: "Tokyo", lat: 35.676422, lng: 139.650109 },
+  { id: "paris", label: "Paris", lat: 48.856613, lng: 2.352222 },
+  { id: "sydney", label: "Sydney", lat: -33.86882, lng: 151.209296 },
+];
@@ -0,0 +1,312 @@
+import type { Geofence } from "./geofences";
+
+/** What has to happen at a checkpoint before the quest moves on. */
+export type QuestUnlockRule = "enter" | "dwell" | "check-in";
+
+export type QuestStep = {
+  checkpointId: string;
+  hint?: string;
+  /** Minutes allowed once the step unlocks. */
+  timeLimitMinutes?: number;
+};
+
+export type Quest = {
+  id: string;
+  name: string;
+  /** Ordered quests reveal one step at a time; unordered ones all at once. */
+  ordered: boolean;
+  unlock: QuestUnlockRule;
+  /** Minutes allowed for the whole quest. */
+  timeLimitMinutes?: number;
+  steps: QuestStep[];
+};
+
+export type QuestOutcome = "completed" | "expired" | "abandoned";
+
+export type QuestProgress = {
+  questId: string;
+  startedAt: number;
+  /** Completion timestamps keyed by checkpoint id. */
+  completed: Record<string, number>;
+  /** Checkpoint ids whose hint has been revealed. */
+  hintsShown: string[];
+  finishedAt?: number;
+  outcome?: QuestOutcome;
+};
+
+export type QuestSession = {
+  quest: Quest;
+  progress: QuestProgress;
+};
+
+export type QuestSummaryStep = {
+  checkpointId: string;
+  name: string;
+  completedAt: number | null;
+  /** Milliseconds since the previous completion (or the start). */
+  split: number | null;
+  hintShown: boolean;
+};
+
+export type QuestSummary = {
+  name: string;
+  outcome: QuestOutcome | null;
+  /** Milliseconds from start to finish (or to `now` while running). */
+  elapsed: number;
+  completedCount: number;
+  total: number;
+  hintsUsed: number;
+  steps: QuestSummaryStep[];
+};
+
+export const QUEST_UNLOCK_RULE_LABELS: Record<QuestUnlockRule, string> = {
+  enter: "On entering",
+  dwell: "After staying a while",
+  "check-in": "On a confirmed check-in",
+};
+
+const MINUTE = 60 * 1000;
+
+export const createQuestFromCheckpoints = (
+  geofences: Geofence[],
+  options: Pick<Quest, "ordered" | "unlock" | "timeLimitMinutes">
+): Quest => ({
+  id: `quest-${Date.now().toString(36)}`,
+  name: "Checkpoint quest",
+  ...options,
+  steps: geofences.map((geofence) => ({ checkpointId: geofence.id })),
+});
+
+const readPositiveNumber = (value: unknown, label: string) => {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+    throw new Error(`${label} must be a positive number of minutes.`);
+  }
+  return value;
+};
+
+/**
+ * Reads a quest definition (JSON). Steps refer to checkpoints by id or name,
+ * which must already be loaded.
+ */
+export const parseQuestFile = (
+  text: string,
+  filename: string,
+  geofences: Geofence[]
+): Quest => {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`${filename} is not valid JSON.`);
+  }
+
+  if (!data || typeof data !== "object" || !Array.isArray(data.steps)) {
+    throw new Error(`${filename} has no "steps" list.`);
+  }
+
+  const unlock = data.unlock ?? "enter";
+  if (typeof unlock !== "string" || !(unlock in QUEST_UNLOCK_RULE_LABELS)) {
+    throw new Error(
+      `Unknown unlock rule "${String(unlock)}" (use ${Object.keys(
+        QUEST_UNLOCK_RULE_LABELS
+      ).join(", ")}).`
+    );
+  }
+
+  const steps = data.steps.map((item: unknown, index): QuestStep => {
+    const step: Record<string, unknown> =
+      typeof item === "string"
+        ? { checkpoint: item }
+        : item && typeof item === "object"
+        ? (item as Record<string, unknown>)
+        : {};
+    const reference = String(step.checkpoint ?? "");
+    const geofence =
+      geofences.find((candidate) => candidate.id === reference) ??
+      geofences.find(
+        (candidate) => candidate.name.toLowerCase() === reference.toLowerCase()
+      );
+    if (!geofence) {
+      throw new Error(
+        `Step ${index + 1}: no checkpoint "${reference}" is loaded.`
+      );
+    }
+
+    return {
+      checkpointId: geofence.id,
+      hint: typeof step.hint === "string" ? step.hint : undefined,
+      timeLimitMinutes: readPositiveNumber(
+        step.timeLimit,
+        `Step ${index + 1} timeLimit`
+      ),
+    };
+  });
+
+  if (steps.length === 0) {
+    throw new Error(`${filename} has no steps.`);
+  }
+
+  return {
+    id: typeof data.id === "string" ? data.id : filename,
+    name: typeof data.name === "string" ? data.name : filename,
+    ordered: data.ordered !== false,
+    unlock: unlock as QuestUnlockRule,
+    timeLimitMinutes: readPositiveNumber(data.timeLimit, "timeLimit"),
+    steps,
+  };
+};
+
+export const startQuest = (quest: Quest, now = Date.now()): QuestProgress => ({
+  questId: quest.id,
+  startedAt: now,
+  completed: {},
+  hintsShown: [],
+});
+
+/** Steps the player can complete right now. */
+export const getUnlockedSteps = (quest: Quest, progress: QuestProgress) => {
+  if (progress.finishedAt !== undefined) {
+    return [];
+  }
+
+  const remaining = quest.steps.filter(
+    (step) => progress.completed[step.checkpointId] === undefined
+  );
+  return quest.ordered ? remaining.slice(0, 1) : remaining;
+};
+
+const getStepUnlockedAt = (
+  quest: Quest,
+  progress: QuestProgress,
+  step: QuestStep
+) => {
+  if (!quest.ordered) {
+    return progress.startedAt;
+  }
+
+  const index = quest.steps.indexOf(step);
+  const previous = quest.steps[index - 1];
+  return previous
+    ? progress.completed[previous.checkpointId] ?? progress.startedAt
+    : progress.startedAt;
+};
+
+/** Earliest deadline among the quest and its unlocked steps; null once finished. */
+export const getQuestDeadline = (quest: Quest, progress: QuestProgress) => {
+  if (progress.finishedAt !== undefined) {
+    return null;
+  }
+
+  const deadlines = getUnlockedSteps(quest, progress)
+    .filter((step) => step.timeLimitMinutes !== undefined)
+    .map(
+      (step) =>
+        getStepUnlockedAt(quest, progress, step) +
+        (step.timeLimitMinutes ?? 0) * MINUTE
+    );
+
+  if (quest.timeLimitMinutes !== undefined) {
+    deadlines.push(progress.startedAt + quest.timeLimitMinutes * MINUTE);
+  }
+
+  return deadlines.length > 0 ? Math.min(...deadlines) : null;
+};
+
+const finishQuest = (
+  progress: QuestProgress,
+  outcome: QuestOutcome,
+  now: number
+): QuestProgress => ({ ...progress, finishedAt: now, outcome });
+
+/**
+ * Marks a checkpoint as reached. Returns null when it is not an unlocked
+ * step, so callers can ignore unrelated fences.
+ */
+export const completeQuestStep = (
+  quest: Quest,
+  progress: QuestProgress,
+  checkpointId: string,
+  now = Date.now()
+) => {
+  const unlocked = getUnlockedSteps(quest, progress).some(
+    (step) => step.checkpointId === checkpointId
+  );
+  if (!unlocked) {
+    return null;
+  }
+
+  const next = {
+    ...progress,
+    completed: { ...progress.completed, [checkpointId]: now },
+  };
+  return getUnlockedSteps(quest, next).length === 0
+    ? finishQuest(next, "completed", now)
+    : next;
+};
+
+/** Ends a running quest whose deadline has passed; otherwise returns null. */
+export const expireQuest = (
+  quest: Quest,
+  progress: QuestProgress,
+  now = Date.now()
+) => {
+  const deadline = getQuestDeadline(quest, progress);
+  return deadline !== null && now >= deadline
+    ? finishQuest(progress, "expired", deadline)
+    : null;
+};
+
+export const abandonQuest = (progress: QuestProgress, now = Date.now()) =>
+  progress.finishedAt !== undefined
+    ? progress
+    : finishQuest(progress, "abandoned", now);
+
+export const revealQuestHint = (
+  progress: QuestProgress,
+  checkpointId: string
+): QuestProgress =>
+  progress.hintsShown.includes(checkpointId)
+    ? progress
+    : { ...progress, hintsShown: [...progress.hintsShown, checkpointId] };
+
+export const buildQuestSummary = (
+  quest: Quest,
+  progress: QuestProgress,
+  geofences: Geofence[],
+  now = Date.now()
+): QuestSummary => {
+  const completionTimes = Object.values(progress.completed).sort(
+    (a, b) => a - b
+  );
+  const getPreviousCompletion = (time: number) =>
+    completionTimes.filter((item) => item < time).pop() ?? progress.startedAt;
+
+  const steps = quest.steps.map((step) => {
+    const completedAt = progress.completed[step.checkpointId] ?? null;
+    return {
+      checkpointId: step.checkpointId,
+      name:
+        geofences.find((item) => item.id === step.checkpointId)?.name ??
+        step.checkpointId,
+      completedAt,
+      split:
+        completedAt === null
+          ? null
+          : completedAt - getPreviousCompletion(completedAt),
+      hintShown: progress.hintsShown.includes(step.checkpointId),
+    };
+  });
+
+  return {
+    name: quest.name,
+    outcome: progress.outcome ?? null,
+    elapsed: (progress.finishedAt ?? now) - progress.startedAt,
+    completedCount: completionTimes.length,
+    total: quest.steps.length,
+    hintsUsed: progress.hintsShown.length,
+    steps,
+  };
+};
@@ -0,0 +1,176 @@
+import { getDistanceInMeters, type LatLngLiteral } from "./geo";
+
+export type Route = {
+  name: string;
+  points: LatLngLiteral[];
+  /** Distance from the first point to each point, in meters. */
+  cumulativeDistances: number[];
+  totalDistance: number;
+};
+
+export const createRoute = (name: string, points: LatLngLiteral[]): Route => {
+  const cumulativeDistances = points.reduce<number[]>(
+    (distances, point, index) => {
+      if (index === 0) {
+        return [0];
+      }
+
+      const previous = points[index - 1];
+      return [
+        ...distances,
+        distances[index - 1] +
+          getDistanceInMeters(previous.lat, previous.lng, point.lat, point.lng),
+      ];
+    },
+    []
+  );
+
+  return {
+    name,
+    points,
+    cumulativeDistances,
+    totalDistance: cumulativeDistances[cumulativeDistances.length - 1] ?? 0,
+  };
+};
+
+/** Linearly interpolates the position `distance` meters along the route. */
+export const getRoutePositionAt = (
+  route: Route,
+  distance: number
+): LatLngLiteral | null => {
+  const { points, cumulativeDistances } = route;
+  if (points.length === 0) {
+    return null;
+  }
+
+  if (distance <= 0 || points.length === 1) {
+    return points[0];
+  }
+
+  if (distance >= route.totalDistance) {
+    return points[points.length - 1];
+  }
+
+  const index = cumulativeDistances.findIndex((value) => value >= distance);
+  const start = points[index - 1];
+  const end = points[index];
+  const segmentLength =
+    cumulativeDistances[index] - cumulativeDistances[index - 1];
+  const t =
+    segmentLength > 0
+      ? (distance - cumulativeDistances[index - 1]) / segmentLength
+      : 0;
+
+  return {
+    lat: start.lat + (end.lat - start.lat) * t,
+    lng: start.lng + (end.lng - start.lng) * t,
+  };
+};
+
+const parseGpxRoute = (text: string, fallbackName: string): Route => {
+  const xml = new DOMParser().parseFromString(text, "application/xml");
+  if (xml.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("GPX file is not valid XML.");
+  }
+
+  const elements = ["trkpt", "rtept", "wpt"]
+    .map((tag) => Array.from(xml.getElementsByTagName(tag)))
+    .find((list) => list.length > 0);
+
+  const points = (elements ?? [])
+    .map((element) => ({
+      lat: Number(element.getAttribute("lat")),
+      lng: Number(element.getAttribute("lon")),
+    }))
+    .filter(
+      (point) => Number.isFinite(point.lat) && Number.isFinite(point.lng)
+    );
+
+  const name =
+    xml.querySelector("trk > name, rte > name, metadata > name")?.textContent ??
+    fallbackName;
+
+  return createRoute(name.trim() || fallbackName, points);
+};
+
+type GeoJsonGeometry = {
+  type: string;
+  coordinates?: unknown;
+  geometries?: GeoJsonGeometry[];
+};
+
+type GeoJsonObject = GeoJsonGeometry & {
+  geometry?: GeoJsonGeometry | null;
+  features?: GeoJsonObject[];
+  properties?: { name?: unknown } | null;
+};
+
+const toLatLng = (coordinate: unknown): LatLngLiteral | null => {
+  if (!Array.isArray(coordinate) || coordinate.length < 2) {
+    return null;
+  }
+
+  const [lng, lat] = coordinate.map(Number);
+  return Number.isFinite(lat) && Number.isFinite(lng) ? { lat, lng } : null;
+};
+
+const collectGeoJsonPoints = (object: GeoJsonObject): LatLngLiteral[] => {
+  switch (object.type) {
+    case "FeatureCollection":
+      return (object.features ?? []).flatMap(collectGeoJsonPoints);
+    case "Feature":
+      return object.geometry ? collectGeoJsonPoints(object.geometry) : [];
+    case "GeometryCollection":
+      return (object.geometries ?? []).flatMap(collectGeoJsonPoints);
+    case "Point": {
+      const point = toLatLng(object.coordinates);
+      return point ? [point] : [];
+    }
+    case "LineString":
+    case "MultiPoint":
+      return Array.isArray(object.coordinates)
+        ? object.coordinates.flatMap((coordinate) => {
+            const point = toLatLng(coordinate);
+            return point ? [point] : [];
+          })
+        : [];
+    case "MultiLineString":
+      return Array.isArray(object.coordinates)
+        ? object.coordinates.flatMap((line) =>
+            collectGeoJsonPoints({ type: "LineString", coordinates: line })
+          )
+        : [];
+    default:
+      return [];
+  }
+};
+
+const parseGeoJsonRoute = (text: string, fallbackName: string): Route => {
+  let object: GeoJsonObject;
+  try {
+    object = JSON.parse(text);
+  } catch (error) {
+    throw new Error("GeoJSON file is not valid JSON.");
+  }
+
+  const name =
+    typeof object.properties?.name === "string"
+      ? object.properties.name
+      : fallbackName;
+
+  return createRoute(name, collectGeoJsonPoints(object));
+};
+
+/** Parses a GPX or GeoJSON route; the format is picked by file extension. */
+export const parseRouteFile = (text: string, filename: string): Route => {
+  const basename = filename.replace(/\.[^.]+$/, "");
+  const route = /\.gpx$/i.test(filename)
+    ? parseGpxRoute(text, basename)
+    : parseGeoJsonRoute(text, basename);
+
+  if (route.points.length < 2) {
+    throw new Error(`${filename} does not contain a route with 2+ points.`);
+  }
+
+  return route;
+};
@@ -0,0 +1,194 @@
+import { offsetLatLng } from "./geo";
+import { getRoutePositionAt, type Route } from "./route";
+
+export type RoutePlayerFix = {
+  lat: number;
+  lng: number;
+  accuracy: number;
+};
+
+export type RoutePlayerState = {
+  playing: boolean;
+  /** Meters travelled along the route. */
+  distance: number;
+  totalDistance: number;
+  /** Playback speed in meters per second. */
+  speed: number;
+  /** Maximum synthetic position error in meters, 0 disables noise. */
+  noise: number;
+};
+
+export type RoutePlayerUpdate = {
+  state: RoutePlayerState;
+  fix: RoutePlayerFix | null;
+};
+
+export type RoutePlayerListener = (update: RoutePlayerUpdate) => void;
+
+export type RoutePlayer = {
+  setRoute: (route: Route | null) => void;
+  play: () => void;
+  pause: () => void;
+  seek: (distance: number) => void;
+  setSpeed: (speed: number) => void;
+  setNoise: (noise: number) => void;
+  getState: () => RoutePlayerState;
+  subscribe: (listener: RoutePlayerListener) => () => void;
+  dispose: () => void;
+};
+
+export const ROUTE_PLAYER_TICK = 1000;
+
+export const createRoutePlayer = (baseAccuracy: number): RoutePlayer => {
+  const listeners = new Set<RoutePlayerListener>();
+  let route: Route | null = null;
+  let timerId: ReturnType<typeof setInterval> | null = null;
+  let lastTickAt = 0;
+  let state: RoutePlayerState = {
+    playing: false,
+    distance: 0,
+    totalDistance: 0,
+    speed: 1.4,
+    noise: 0,
+  };
+
+  const getFix = (): RoutePlayerFix | null => {
+    const point = route ? getRoutePositionAt(route, state.distance) : null;
+    if (!point) {
+      return null;
+    }
+
+    if (state.noise <= 0) {
+      return { ...point, accuracy: baseAccuracy };
+    }
+
+    const error = Math.random() * state.noise;
+    const direction = Math.random() * 2 * Math.PI;
+    const jittered = offsetLatLng(
+      point,
+      Math.cos(direction) * error,
+      Math.sin(direction) * error
+    );
+
+    return {
+      ...jittered,
+      accuracy: baseAccuracy + Math.random() * state.noise,
+    };
+  };
+
+  const emit = (withFix: boolean) => {
+    const update = { state, fix: withFix ? getFix() : null };
+    listeners.forEach((listener) => {
+      listener(update);
+    });
+  };
+
+  const stopTimer = () => {
+    if (timerId !== null) {
+      clearInterval(timerId);
+      timerId = null;
+    }
+  };
+
+  const tick = () => {
+    const now = Date.now();
+    const elapsed = (now - lastTickAt) / 1000;
+    lastTickAt = now;
+
+    const distance = Math.min(
+      state.distance + elapsed * state.speed,
+      state.totalDistance
+    );
+    const finished = distance >= state.totalDistance;
+
+    if (finished) {
+      stopTimer();
+    }
+
+    state = { ...state, distance, playing: !finished };
+    emit(true);
+  };
+
+  const play = () => {
+    if (!route || state.playing) {
+      return;
+    }
+
+    if (state.distance >= state.totalDistance) {
+      state = { ...state, distance: 0 };
+    }
+
+    lastTickAt = Date.now();
+    timerId = setInterval(tick, ROUTE_PLAYER_TICK);
+    state = { ...state, playing: true };
+    emit(true);
+  };
+
+  const pause = () => {
+    stopTimer();
+    if (state.playing) {
+      state = { ...state, playing: false };
+      emit(false);
+    }
+  };
+
+  const setRoute = (next: Route | null) => {
+    stopTimer();
+    route = next;
+    state = {
+      ...state,
+      playing: false,
+      distance: 0,
+      totalDistance: next?.totalDistance ?? 0,
+    };
+    emit(false);
+  };
+
+  const seek = (distance: number) => {
+    if (!route) {
+      return;
+    }
+
+    state = {
+      ...state,
+      distance: Math.min(Math.max(distance, 0), state.totalDistance),
+    };
+    lastTickAt = Date.now();
+    emit(true);
+  };
+
+  const setSpeed = (speed: number) => {
+    state = { ...state, speed };
+    emit(false);
+  };
+
+  const setNoise = (noise: number) => {
+    state = { ...state, noise };
+    emit(false);
+  };
+
+  const subscribe = (listener: RoutePlayerListener) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const dispose = () => {
+    stopTimer();
+    state = { ...state, playing: false };
+    listeners.clear();
+  };
+
+  return {
+    setRoute,
+    play,
+    pause,
+    seek,
+    setSpeed,
+    setNoise,
+    getState: () => state,
+    subscribe,
+    dispose,
+  };
+};
@@ -0,0 +1,62 @@
+import L from "leaflet";
+import { isPeerStale } from "./peers";
+import type { PeerState } from "./types";
+
+export type PeerLayers = {
+  marker: L.CircleMarker;
+  accuracy: L.Circle;
+};
+
+const formatAge = (milliseconds: number) => {
+  const seconds = Math.max(Math.round(milliseconds / 1000), 0);
+  return seconds < 60
+    ? `${seconds} s ago`
+    : `${Math.round(seconds / 60)} min ago`;
+};
+
+const getTooltip = (peer: PeerState, now: number) =>
+  `${peer.name} · ±${Math.round(peer.position.accuracy)} m · ${formatAge(
+    now - peer.updatedAt
+  )}`;
+
+export const createPeerLayers = (peer: PeerState, now: number): PeerLayers => {
+  const latLng = L.latLng(peer.position.lat, peer.position.lng);
+
+  return {
+    marker: L.circleMarker(latLng, {
+      radius: 7,
+      weight: 2,
+      fillOpacity: 0.9,
+      className: "peer-marker",
+    }).bindTooltip(getTooltip(peer, now), {
+      permanent: true,
+      direction: "top",
+      offset: L.point(0, -8),
+      className: "peer-label",
+    }),
+    accuracy: L.circle(latLng, {
+      radius: peer.position.accuracy,
+      weight: 1,
+      fillOpacity: 0.06,
+      className: "peer-accuracy",
+      interactive: false,
+    }),
+  };
+};
+
+/** Moves the layers and refreshes the label and stale styling. */
+export const updatePeerLayers = (
+  { marker, accuracy }: PeerLayers,
+  peer: PeerState,
+  now: number
+) => {
+  const latLng = L.latLng(peer.position.lat, peer.position.lng);
+  const stale = isPeerStale(peer, now);
+
+  marker.setLatLng(latLng);
+  marker.setTooltipContent(getTooltip(peer, now));
+  marker.setStyle({ opacity: stale ? 0.4 : 1, fillOpacity: stale ? 0.3 : 0.9 });
+  accuracy.setLatLng(latLng);
+  accuracy.setRadius(peer.position.accuracy);
+  accuracy.setStyle({ opacity: stale ? 0.2 : 0.6 });
+};
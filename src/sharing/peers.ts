@@ -0,0 +1,129 @@
+import type {
+  PeerIdentity,
+  PeerState,
+  RelayMessage,
+  SharedPosition,
+} from "./types";
+
+/** Peers silent for longer than this are drawn as stale. */
+export const PEER_STALE_AFTER = 30 * 1000;
+/** Peers silent for longer than this are dropped. */
+export const PEER_EXPIRE_AFTER = 10 * 60 * 1000;
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const isPosition = (value: unknown): value is SharedPosition => {
+  const position = value as SharedPosition | null;
+  return (
+    typeof position === "object" &&
+    position !== null &&
+    isFiniteNumber(position.lat) &&
+    isFiniteNumber(position.lng) &&
+    isFiniteNumber(position.accuracy) &&
+    isFiniteNumber(position.timestamp)
+  );
+};
+
+const isPeer = (value: unknown): value is PeerIdentity => {
+  const peer = value as Partial<PeerIdentity> | null;
+  return (
+    typeof peer === "object" &&
+    peer !== null &&
+    typeof peer.id === "string" &&
+    typeof peer.name === "string"
+  );
+};
+
+/** Validates relay data; anything malformed is dropped as null. */
+export const parseRelayMessage = (data: string): RelayMessage | null => {
+  let message: Record<string, unknown>;
+  try {
+    message = JSON.parse(data);
+  } catch (error) {
+    return null;
+  }
+
+  switch (message?.type) {
+    case "peers":
+      return Array.isArray(message.peers)
+        ? {
+            type: "peers",
+            peers: message.peers
+              .filter(
+                (peer) =>
+                  isPeer(peer) &&
+                  isPosition((peer as { position?: unknown }).position)
+              )
+              .map(({ id, name, position }) => ({ id, name, position })),
+          }
+        : null;
+    case "position":
+      return isPeer(message.peer) && isPosition(message.position)
+        ? {
+            type: "position",
+            peer: { id: message.peer.id, name: message.peer.name },
+            position: message.position,
+          }
+        : null;
+    case "leave":
+      return typeof message.peerId === "string"
+        ? { type: "leave", peerId: message.peerId }
+        : null;
+    default:
+      return null;
+  }
+};
+
+export const applyRelayMessage = (
+  peers: Record<string, PeerState>,
+  message: RelayMessage,
+  selfId: string,
+  now = Date.now()
+): Record<string, PeerState> => {
+  switch (message.type) {
+    case "peers":
+      return Object.fromEntries(
+        message.peers
+          .filter((peer) => peer.id !== selfId)
+          .map((peer) => [
+            peer.id,
+            { ...peer, updatedAt: Math.min(peer.position.timestamp, now) },
+          ])
+      );
+    case "position":
+      if (message.peer.id === selfId) {
+        return peers;
+      }
+      return {
+        ...peers,
+        [message.peer.id]: {
+          ...message.peer,
+          position: message.position,
+          updatedAt: Math.min(message.position.timestamp, now),
+        },
+      };
+    case "leave":
+      return peers[message.peerId]
+        ? Object.fromEntries(
+            Object.entries(peers).filter(([id]) => id !== message.peerId)
+          )
+        : peers;
+  }
+};
+
+/** Drops expired peers; returns the same object when nothing changed. */
+export const pruneExpiredPeers = (
+  peers: Record<string, PeerState>,
+  now = Date.now()
+) => {
+  const kept = Object.values(peers).filter(
+    (peer) => now - peer.updatedAt <= PEER_EXPIRE_AFTER
+  );
+  return kept.length === Object.keys(peers).length
+    ? peers
+    : Object.fromEntries(kept.map((peer) => [peer.id, peer]));
+};
+
+export const isPeerStale = (peer: PeerState, now = Date.now()) =>
+  now - peer.updatedAt > PEER_STALE_AFTER;
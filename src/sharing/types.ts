@@ -0,0 +1,58 @@
+export type PeerIdentity = {
+  id: string;
+  name: string;
+};
+
+export type SharedPosition = {
+  lat: number;
+  lng: number;
+  accuracy: number;
+  /** Time of the sender's fix (ms since epoch). */
+  timestamp: number;
+};
+
+export type PeerState = PeerIdentity & {
+  position: SharedPosition;
+  /**
+   * Time of the peer's fix, capped to the local clock. A position replayed
+   * from the relay's snapshot or after a reconnect keeps its original age.
+   */
+  updatedAt: number;
+};
+
+/** Messages a client sends to the relay. */
+export type ClientMessage =
+  | { type: "join"; room: string; peer: PeerIdentity }
+  | { type: "position"; position: SharedPosition }
+  | { type: "leave" };
+
+/** Messages the relay sends to a client. */
+export type RelayMessage =
+  | {
+      type: "peers";
+      peers: (PeerIdentity & { position: SharedPosition })[];
+    }
+  | { type: "position"; peer: PeerIdentity; position: SharedPosition }
+  | { type: "leave"; peerId: string };
+
+export type SharingStatus =
+  | "idle"
+  | "connecting"
+  | "connected"
+  | "reconnecting";
+
+/**
+ * Carries room messages between participants. The WebSocket relay is the
+ * only implementation today; others (e.g. WebRTC) plug in behind the same
+ * shape.
+ */
+export type SharingTransport = {
+  id: string;
+  /** Joins a room, reconnecting on its own until `leave` is called. */
+  join: (room: string, peer: PeerIdentity) => void;
+  leave: () => void;
+  /** The latest position is also re-sent after a reconnect. */
+  sendPosition: (position: SharedPosition) => void;
+  onMessage: (listener: (message: RelayMessage) => void) => () => void;
+  onStatus: (listener: (status: SharingStatus) => void) => () => void;
+};
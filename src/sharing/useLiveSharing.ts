@@ -0,0 +1,177 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import type L from "leaflet";
+
+import { getTelegramUserId, getTelegramUserName } from "../telegramCheckIn";
+import {
+  createPeerLayers,
+  updatePeerLayers,
+  type PeerLayers,
+} from "./peerLayers";
+import { applyRelayMessage, pruneExpiredPeers } from "./peers";
+import type { PeerState, SharingStatus } from "./types";
+import { createWebSocketTransport } from "./websocketTransport";
+
+const SHARING_RELAY_URL =
+  import.meta.env.VITE_SHARING_RELAY_URL || "ws://localhost:8787";
+/** Stable for the session so reconnects replace rather than duplicate us. */
+const SHARING_PEER_ID = String(
+  getTelegramUserId() ?? Math.random().toString(36).slice(2, 10)
+);
+const SHARING_TICK = 5000;
+
+export const SHARING_STATUS_LABELS: Record<SharingStatus, string> = {
+  idle: "Not sharing",
+  connecting: "Connecting…",
+  connected: "Connected",
+  reconnecting: "Reconnecting…",
+};
+
+type UseLiveSharingOptions = {
+  position: {
+    lat: number;
+    lng: number;
+    accuracy: number;
+    timestamp?: number;
+  } | null;
+  mapRef: { readonly current: L.Map | null };
+  setStatusMessage: (message: string) => void;
+};
+
+/**
+ * Room membership, our outgoing position and the peers drawn on the map.
+ * Nothing is sent until the user joins a room.
+ */
+export const useLiveSharing = ({
+  position,
+  mapRef,
+  setStatusMessage,
+}: UseLiveSharingOptions) => {
+  const peerLayersRef = useRef<Map<string, PeerLayers>>(new Map());
+  const [sharingTransport] = useState(() =>
+    createWebSocketTransport(SHARING_RELAY_URL)
+  );
+  const [sharingName, setSharingName] = useState(
+    () => getTelegramUserName() ?? ""
+  );
+  const [sharingRoom, setSharingRoom] = useState("");
+  /** Room we are sharing in; null while sharing is off. */
+  const [joinedRoom, setJoinedRoom] = useState<string | null>(null);
+  const [sharingStatus, setSharingStatus] = useState<SharingStatus>("idle");
+  const [peers, setPeers] = useState<Record<string, PeerState>>({});
+  const [sharingNow, setSharingNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const unsubscribers = [
+      sharingTransport.onMessage((message) => {
+        setPeers((current) =>
+          applyRelayMessage(current, message, SHARING_PEER_ID)
+        );
+      }),
+      sharingTransport.onStatus(setSharingStatus),
+    ];
+
+    return () => {
+      unsubscribers.forEach((unsubscribe) => {
+        unsubscribe();
+      });
+      sharingTransport.leave();
+    };
+  }, [sharingTransport]);
+
+  useEffect(() => {
+    if (!joinedRoom || !position) {
+      return;
+    }
+
+    sharingTransport.sendPosition({
+      lat: Number(position.lat.toFixed(6)),
+      lng: Number(position.lng.toFixed(6)),
+      accuracy: Math.round(position.accuracy),
+      timestamp: position.timestamp ?? Date.now(),
+    });
+  }, [joinedRoom, position, sharingTransport]);
+
+  useEffect(() => {
+    if (!joinedRoom) {
+      return;
+    }
+
+    // Ages and staleness move on even when nobody sends anything.
+    const timerId = window.setInterval(() => {
+      const now = Date.now();
+      setSharingNow(now);
+      setPeers((current) => pruneExpiredPeers(current, now));
+    }, SHARING_TICK);
+    return () => {
+      window.clearInterval(timerId);
+    };
+  }, [joinedRoom]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    const layers = peerLayersRef.current;
+    if (!map) {
+      return;
+    }
+
+    layers.forEach(({ marker, accuracy }, id) => {
+      if (!peers[id]) {
+        marker.remove();
+        accuracy.remove();
+        layers.delete(id);
+      }
+    });
+    Object.values(peers).forEach((peer) => {
+      let peerLayers = layers.get(peer.id);
+      if (!peerLayers) {
+        peerLayers = createPeerLayers(peer, sharingNow);
+        peerLayers.accuracy.addTo(map);
+        peerLayers.marker.addTo(map);
+        layers.set(peer.id, peerLayers);
+      }
+      updatePeerLayers(peerLayers, peer, sharingNow);
+    });
+  }, [mapRef, peers, sharingNow]);
+
+  const peerList = useMemo(
+    () =>
+      Object.values(peers).sort((first, second) =>
+        first.name.localeCompare(second.name)
+      ),
+    [peers]
+  );
+
+  const handleSharingToggle = () => {
+    if (joinedRoom) {
+      sharingTransport.leave();
+      setJoinedRoom(null);
+      setPeers({});
+      setStatusMessage("Stopped sharing your position");
+      return;
+    }
+
+    const room = sharingRoom.trim();
+    const name = sharingName.trim();
+    if (!room || !name) {
+      setStatusMessage("Enter your name and a room to share your position");
+      return;
+    }
+
+    sharingTransport.join(room, { id: SHARING_PEER_ID, name });
+    setJoinedRoom(room);
+    setSharingNow(Date.now());
+    setStatusMessage(`Sharing your position in ${room}`);
+  };
+
+  return {
+    sharingName,
+    setSharingName,
+    sharingRoom,
+    setSharingRoom,
+    joinedRoom,
+    sharingStatus,
+    sharingNow,
+    peerList,
+    handleSharingToggle,
+  };
+};
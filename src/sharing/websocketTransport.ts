@@ -0,0 +1,136 @@
+import { createEmitter } from "../location/emitter";
+import { parseRelayMessage } from "./peers";
+import type {
+  ClientMessage,
+  PeerIdentity,
+  RelayMessage,
+  SharedPosition,
+  SharingStatus,
+  SharingTransport,
+} from "./types";
+
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 15000;
+
+/** Talks to the relay in tools/relay-server.mjs (or anything speaking its JSON protocol). */
+export const createWebSocketTransport = (url: string): SharingTransport => {
+  const messages = createEmitter<RelayMessage>();
+  const statuses = createEmitter<SharingStatus>();
+
+  const controller: {
+    socket: WebSocket | null;
+    room: string | null;
+    peer: PeerIdentity | null;
+    lastPosition: SharedPosition | null;
+    attempts: number;
+    timerId: ReturnType<typeof setTimeout> | null;
+  } = {
+    socket: null,
+    room: null,
+    peer: null,
+    lastPosition: null,
+    attempts: 0,
+    timerId: null,
+  };
+
+  const send = (message: ClientMessage) => {
+    if (controller.socket?.readyState === WebSocket.OPEN) {
+      controller.socket.send(JSON.stringify(message));
+    }
+  };
+
+  const scheduleReconnect = () => {
+    const delay = Math.min(
+      RECONNECT_BASE_DELAY * 2 ** controller.attempts,
+      RECONNECT_MAX_DELAY
+    );
+    controller.attempts += 1;
+    statuses.emit("reconnecting");
+    controller.timerId = setTimeout(open, delay);
+  };
+
+  const open = () => {
+    controller.timerId = null;
+    const { room, peer } = controller;
+    if (!room || !peer) {
+      return;
+    }
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(url);
+    } catch (error) {
+      console.warn("Unable to open sharing relay", error);
+      scheduleReconnect();
+      return;
+    }
+
+    controller.socket = socket;
+    statuses.emit(controller.attempts > 0 ? "reconnecting" : "connecting");
+
+    socket.addEventListener("open", () => {
+      controller.attempts = 0;
+      statuses.emit("connected");
+      send({ type: "join", room, peer });
+      if (controller.lastPosition) {
+        send({ type: "position", position: controller.lastPosition });
+      }
+    });
+    socket.addEventListener("message", (event) => {
+      const message =
+        typeof event.data === "string" ? parseRelayMessage(event.data) : null;
+      if (message) {
+        messages.emit(message);
+      }
+    });
+    socket.addEventListener("close", () => {
+      if (controller.socket !== socket) {
+        return;
+      }
+      controller.socket = null;
+      if (controller.room) {
+        scheduleReconnect();
+      }
+    });
+  };
+
+  const close = () => {
+    if (controller.timerId !== null) {
+      clearTimeout(controller.timerId);
+      controller.timerId = null;
+    }
+
+    const { socket } = controller;
+    controller.socket = null;
+    if (socket) {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify({ type: "leave" } satisfies ClientMessage));
+      }
+      socket.close();
+    }
+  };
+
+  return {
+    id: "websocket",
+    join: (room, peer) => {
+      close();
+      controller.room = room;
+      controller.peer = peer;
+      controller.attempts = 0;
+      open();
+    },
+    leave: () => {
+      controller.room = null;
+      controller.peer = null;
+      controller.lastPosition = null;
+      close();
+      statuses.emit("idle");
+    },
+    sendPosition: (position) => {
+      controller.lastPosition = position;
+      send({ type: "position", position });
+    },
+    onMessage: messages.subscribe,
+    onStatus: statuses.subscribe,
+  };
+};
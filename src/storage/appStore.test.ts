@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_GEOFENCES } from "../geofences";
+import { EMPTY_PERSISTED_STATE, migratePersistedState } from "./appStore";
+
+describe("migratePersistedState", () => {
+  it("falls back to defaults for lists and settings of the wrong type", () => {
+    expect(
+      migratePersistedState({
+        version: 2,
+        settings: "dark",
+        customPresets: { id: "home" },
+        checkpoints: "all",
+      })
+    ).toEqual(EMPTY_PERSISTED_STATE);
+  });
+
+  it("keeps the built-in checkpoints when upgrading version 1 data", () => {
+    const state = migratePersistedState({ version: 1, checkpoints: [] });
+    expect(state.checkpoints).toEqual(DEFAULT_GEOFENCES);
+  });
+
+  it("ignores state written by a newer build", () => {
+    expect(
+      migratePersistedState({ version: 99, settings: { mode: "gps" } })
+    ).toBe(EMPTY_PERSISTED_STATE);
+  });
+});
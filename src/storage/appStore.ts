@@ -0,0 +1,189 @@
+import type { CoordinateDisplayFormat } from "../coordinates/formats";
+import { DEFAULT_GEOFENCES, isGeofence, type Geofence } from "../geofences";
+import type { FixSmoothing } from "../location/fixFilter";
+import type { LocationSourceMode } from "../location/startProviders";
+import type { LocationPreset } from "../presets";
+import type { QuestSession } from "../quest";
+import {
+  createIndexedDbStore,
+  createLocalStorageStore,
+  createMemoryStore,
+  type KeyValueStore,
+} from "./keyValueStore";
+import { createTelegramCloudStore } from "./telegramCloudStore";
+
+export const APP_STATE_KEY = "app_state";
+export const APP_STATE_VERSION = 2;
+/** Quest progress lives under its own key per user, `quest_<user id>`. */
+const QUEST_KEY_PREFIX = "quest_";
+
+export type PersistedSettings = {
+  mode: "gps" | "simulated";
+  selectedLocationId: string;
+  draftLat: string;
+  draftLng: string;
+  sourceMode: LocationSourceMode;
+  smoothing: FixSmoothing;
+  /** Worst accuracy (meters) that still confirms a check-in. */
+  maxCheckInAccuracy: number;
+  coordinateFormat: CoordinateDisplayFormat;
+  sharingName: string;
+  sharingRoom: string;
+  historyRetentionDays: number;
+};
+
+export type PersistedState = {
+  version: typeof APP_STATE_VERSION;
+  settings: Partial<PersistedSettings>;
+  customPresets: LocationPreset[];
+  checkpoints: Geofence[];
+};
+
+export const EMPTY_PERSISTED_STATE: PersistedState = {
+  version: APP_STATE_VERSION,
+  settings: {},
+  customPresets: [],
+  checkpoints: DEFAULT_GEOFENCES,
+};
+
+type Migration = (state: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * `MIGRATIONS[n]` upgrades a stored state from version n to n + 1. Bump
+ * APP_STATE_VERSION and add an entry here whenever PersistedState changes
+ * shape.
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  // Unversioned data predates the schema; keep whatever lists it had.
+  0: (state) => ({
+    ...EMPTY_PERSISTED_STATE,
+    customPresets: Array.isArray(state.customPresets)
+      ? state.customPresets
+      : [],
+    checkpoints: Array.isArray(state.checkpoints) ? state.checkpoints : [],
+    version: 1,
+  }),
+  // Version 1 stored only user checkpoints; the built-in ones are now
+  // editable too, so the full list is saved.
+  1: (state) => {
+    const checkpoints = Array.isArray(state.checkpoints)
+      ? (state.checkpoints as Geofence[])
+      : [];
+    const defaultIds = new Set(DEFAULT_GEOFENCES.map((item) => item.id));
+
+    return {
+      ...state,
+      checkpoints: [
+        ...DEFAULT_GEOFENCES,
+        ...checkpoints.filter((item) => !defaultIds.has(item.id)),
+      ],
+      version: 2,
+    };
+  },
+};
+
+export const migratePersistedState = (raw: unknown): PersistedState => {
+  if (!raw || typeof raw !== "object") {
+    return EMPTY_PERSISTED_STATE;
+  }
+
+  let state = raw as Record<string, unknown>;
+  let version = typeof state.version === "number" ? state.version : 0;
+
+  if (version > APP_STATE_VERSION) {
+    // Written by a newer build; ignore rather than misread it.
+    return EMPTY_PERSISTED_STATE;
+  }
+
+  while (version < APP_STATE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      return EMPTY_PERSISTED_STATE;
+    }
+    state = migrate(state);
+    version += 1;
+  }
+
+  const loaded = { ...EMPTY_PERSISTED_STATE, ...state } as PersistedState;
+  // Individual settings are checked by whoever applies them; a checkpoint
+  // that no longer makes sense is dropped, not drawn.
+  return {
+    ...loaded,
+    settings:
+      loaded.settings && typeof loaded.settings === "object"
+        ? loaded.settings
+        : {},
+    customPresets: Array.isArray(loaded.customPresets)
+      ? loaded.customPresets
+      : [],
+    checkpoints: Array.isArray(loaded.checkpoints)
+      ? loaded.checkpoints.filter(isGeofence)
+      : EMPTY_PERSISTED_STATE.checkpoints,
+  };
+};
+
+export type AppStore = {
+  backend: KeyValueStore["name"];
+  load: () => Promise<PersistedState>;
+  save: (state: Omit<PersistedState, "version">) => Promise<void>;
+  loadQuest: (userKey: string) => Promise<QuestSession | null>;
+  saveQuest: (userKey: string, session: QuestSession | null) => Promise<void>;
+};
+
+/**
+ * Picks Telegram CloudStorage inside Telegram, then localStorage, then
+ * IndexedDB, and finally an in-memory store so callers never need to branch.
+ */
+export const createAppStore = (): AppStore => {
+  const store =
+    createTelegramCloudStore() ??
+    createLocalStorageStore() ??
+    createIndexedDbStore() ??
+    createMemoryStore();
+
+  /** Last JSON written, so unchanged state is not sent again. */
+  let savedValue: string | null = null;
+
+  return {
+    backend: store.name,
+    load: async () => {
+      const value = await store.getItem(APP_STATE_KEY);
+      savedValue = value;
+      if (!value) {
+        return EMPTY_PERSISTED_STATE;
+      }
+
+      try {
+        return migratePersistedState(JSON.parse(value));
+      } catch (error) {
+        return EMPTY_PERSISTED_STATE;
+      }
+    },
+    save: async (state) => {
+      const value = JSON.stringify({ ...state, version: APP_STATE_VERSION });
+      if (value === savedValue) {
+        return;
+      }
+
+      await store.setItem(APP_STATE_KEY, value);
+      savedValue = value;
+    },
+    loadQuest: async (userKey) => {
+      const value = await store.getItem(QUEST_KEY_PREFIX + userKey);
+      if (!value) {
+        return null;
+      }
+
+      try {
+        const session = JSON.parse(value) as QuestSession;
+        return session?.quest && session.progress ? session : null;
+      } catch (error) {
+        return null;
+      }
+    },
+    saveQuest: (userKey, session) =>
+      session
+        ? store.setItem(QUEST_KEY_PREFIX + userKey, JSON.stringify(session))
+        : store.removeItem(QUEST_KEY_PREFIX + userKey),
+  };
+};
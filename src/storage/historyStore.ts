@@ -0,0 +1,160 @@
+import type { GeofenceEventType } from "../geofenceEngine";
+import type { LocationSourceId } from "../location/types";
+
+const HISTORY_DB_NAME = "location-history";
+const FIXES_STORE = "fixes";
+const EVENTS_STORE = "events";
+const TIMESTAMP_INDEX = "timestamp";
+const DAY = 24 * 60 * 60 * 1000;
+
+export type HistoryFix = {
+  lat: number;
+  lng: number;
+  accuracy: number;
+  timestamp: number;
+  source: LocationSourceId;
+};
+
+export type HistoryEvent = {
+  type: GeofenceEventType;
+  checkpointId: string;
+  /** Name at the time of the event; checkpoints may be renamed or deleted. */
+  checkpointName: string;
+  lat: number;
+  lng: number;
+  timestamp: number;
+  dwellTime: number;
+};
+
+export type HistoryRetention = {
+  days: number;
+  /** Oldest fixes beyond this count are dropped even if within `days`. */
+  maxFixes: number;
+};
+
+export const DEFAULT_HISTORY_RETENTION: HistoryRetention = {
+  days: 30,
+  maxFixes: 100_000,
+};
+
+export type HistoryStore = {
+  addFix: (fix: HistoryFix) => Promise<void>;
+  addEvent: (event: HistoryEvent) => Promise<void>;
+  /** Records with `from <= timestamp < to`, oldest first. */
+  getFixes: (from: number, to: number) => Promise<HistoryFix[]>;
+  getEvents: (from: number, to: number) => Promise<HistoryEvent[]>;
+  prune: (retention: HistoryRetention, now?: number) => Promise<void>;
+  clear: () => Promise<void>;
+};
+
+const requestResult = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+/** Deletes index entries in `range`, at most `limit` of them. */
+const deleteByTimestamp = (
+  store: IDBObjectStore,
+  range: IDBKeyRange | null,
+  limit = Infinity
+) => {
+  let deleted = 0;
+  const request = store.index(TIMESTAMP_INDEX).openCursor(range);
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (cursor && deleted < limit) {
+      cursor.delete();
+      deleted += 1;
+      cursor.continue();
+    }
+  };
+};
+
+/**
+ * Append-only log of accepted fixes and geofence events, kept in its own
+ * IndexedDB database so it never competes with the app state for quota.
+ * Returns null where IndexedDB is unavailable.
+ */
+export const createHistoryStore = (): HistoryStore | null => {
+  if (typeof indexedDB === "undefined") {
+    return null;
+  }
+
+  const dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(HISTORY_DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      [FIXES_STORE, EVENTS_STORE].forEach((name) => {
+        request.result
+          .createObjectStore(name, { autoIncrement: true })
+          .createIndex(TIMESTAMP_INDEX, TIMESTAMP_INDEX);
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  const add = async (storeName: string, value: HistoryFix | HistoryEvent) => {
+    const db = await dbPromise;
+    const transaction = db.transaction(storeName, "readwrite");
+    transaction.objectStore(storeName).add(value);
+    await transactionDone(transaction);
+  };
+
+  const getRange = async <T>(storeName: string, from: number, to: number) => {
+    const db = await dbPromise;
+    return requestResult<T[]>(
+      db
+        .transaction(storeName, "readonly")
+        .objectStore(storeName)
+        .index(TIMESTAMP_INDEX)
+        .getAll(IDBKeyRange.bound(from, to, false, true))
+    );
+  };
+
+  return {
+    addFix: (fix) => add(FIXES_STORE, fix),
+    addEvent: (event) => add(EVENTS_STORE, event),
+    getFixes: (from, to) => getRange<HistoryFix>(FIXES_STORE, from, to),
+    getEvents: (from, to) => getRange<HistoryEvent>(EVENTS_STORE, from, to),
+    prune: async ({ days, maxFixes }, now = Date.now()) => {
+      const db = await dbPromise;
+      const expired = IDBKeyRange.upperBound(now - days * DAY, true);
+      const transaction = db.transaction(
+        [FIXES_STORE, EVENTS_STORE],
+        "readwrite"
+      );
+      deleteByTimestamp(transaction.objectStore(EVENTS_STORE), expired);
+      deleteByTimestamp(transaction.objectStore(FIXES_STORE), expired);
+      await transactionDone(transaction);
+
+      // Counted once the expired fixes are gone, so both limits hold.
+      const trim = db.transaction(FIXES_STORE, "readwrite");
+      const fixes = trim.objectStore(FIXES_STORE);
+      const count = fixes.count();
+      count.onsuccess = () => {
+        if (count.result > maxFixes) {
+          deleteByTimestamp(fixes, null, count.result - maxFixes);
+        }
+      };
+      await transactionDone(trim);
+    },
+    clear: async () => {
+      const db = await dbPromise;
+      const transaction = db.transaction(
+        [FIXES_STORE, EVENTS_STORE],
+        "readwrite"
+      );
+      transaction.objectStore(FIXES_STORE).clear();
+      transaction.objectStore(EVENTS_STORE).clear();
+      await transactionDone(transaction);
+    },
+  };
+};
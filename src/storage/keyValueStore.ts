@@ -0,0 +1,87 @@
+export type KeyValueStore = {
+  name: "telegram-cloud" | "local-storage" | "indexed-db" | "memory";
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+};
+
+export const createLocalStorageStore = (): KeyValueStore | null => {
+  try {
+    const probe = "__storage_probe__";
+    localStorage.setItem(probe, probe);
+    localStorage.removeItem(probe);
+  } catch (error) {
+    return null;
+  }
+
+  return {
+    name: "local-storage",
+    getItem: async (key) => localStorage.getItem(key),
+    setItem: async (key, value) => {
+      localStorage.setItem(key, value);
+    },
+    removeItem: async (key) => {
+      localStorage.removeItem(key);
+    },
+  };
+};
+
+const INDEXED_DB_NAME = "app-storage";
+const INDEXED_DB_STORE = "entries";
+
+export const createIndexedDbStore = (): KeyValueStore | null => {
+  if (typeof indexedDB === "undefined") {
+    return null;
+  }
+
+  const dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(INDEXED_DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(INDEXED_DB_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  const run = async <T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ) => {
+    const db = await dbPromise;
+    return new Promise<T>((resolve, reject) => {
+      const request = operation(
+        db.transaction(INDEXED_DB_STORE, mode).objectStore(INDEXED_DB_STORE)
+      );
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    name: "indexed-db",
+    getItem: async (key) =>
+      (await run<string | undefined>("readonly", (store) => store.get(key))) ??
+      null,
+    setItem: async (key, value) => {
+      await run("readwrite", (store) => store.put(value, key));
+    },
+    removeItem: async (key) => {
+      await run("readwrite", (store) => store.delete(key));
+    },
+  };
+};
+
+export const createMemoryStore = (): KeyValueStore => {
+  const entries = new Map<string, string>();
+
+  return {
+    name: "memory",
+    getItem: async (key) => entries.get(key) ?? null,
+    setItem: async (key, value) => {
+      entries.set(key, value);
+    },
+    removeItem: async (key) => {
+      entries.delete(key);
+    },
+  };
+};
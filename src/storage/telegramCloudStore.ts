@@ -0,0 +1,93 @@
+import { cloudStorage } from "@telegram-apps/sdk";
+import type { KeyValueStore } from "./keyValueStore";
+
+/** Telegram limits each CloudStorage value to 4096 characters. */
+const CHUNK_SIZE = 4000;
+
+/** Chunks of older saves have no generation: `<key>__<n>`. */
+const chunkKey = (key: string, index: number, generation: string | null) =>
+  generation ? `${key}__${generation}_${index}` : `${key}__${index}`;
+
+/**
+ * CloudStorage-backed store. Values longer than one CloudStorage entry are
+ * split across `<key>__<generation>_<n>` entries, with `<key>` holding
+ * `chunks:<count>:<generation>`. New chunks are written under a fresh
+ * generation and the header is switched last, so an interrupted save leaves
+ * the previous value readable. Writes run one at a time.
+ */
+export const createTelegramCloudStore = (): KeyValueStore | null => {
+  if (!cloudStorage.isSupported() || !cloudStorage.getItem.isAvailable()) {
+    return null;
+  }
+
+  let queue: Promise<unknown> = Promise.resolve();
+  const enqueue = <T>(task: () => Promise<T>) => {
+    const result = queue.then(task);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  const readHeader = async (key: string) => {
+    const header = await cloudStorage.getItem(key);
+    const match = /^chunks:(\d+)(?::([a-z0-9]+))?$/.exec(header);
+    return {
+      header,
+      chunkKeys: match
+        ? Array.from({ length: Number(match[1]) }, (_, index) =>
+            chunkKey(key, index, match[2] ?? null)
+          )
+        : null,
+    };
+  };
+
+  const deleteKeys = async (keys: string[]) => {
+    if (keys.length > 0) {
+      await cloudStorage.deleteItem(keys);
+    }
+  };
+
+  return {
+    name: "telegram-cloud",
+    getItem: (key) =>
+      enqueue(async () => {
+        const { header, chunkKeys } = await readHeader(key);
+        if (chunkKeys === null) {
+          return header === "" ? null : header;
+        }
+
+        const chunks = await cloudStorage.getItem(chunkKeys);
+        return chunkKeys.map((item) => chunks[item] ?? "").join("");
+      }),
+    setItem: (key, value) =>
+      enqueue(async () => {
+        const previous = await readHeader(key);
+        const written = new Set<string>();
+
+        if (value.length <= CHUNK_SIZE && !value.startsWith("chunks:")) {
+          await cloudStorage.setItem(key, value);
+        } else {
+          const generation = Date.now().toString(36);
+          const count = Math.ceil(value.length / CHUNK_SIZE);
+          for (let index = 0; index < count; index += 1) {
+            const item = chunkKey(key, index, generation);
+            await cloudStorage.setItem(
+              item,
+              value.slice(index * CHUNK_SIZE, (index + 1) * CHUNK_SIZE)
+            );
+            written.add(item);
+          }
+          await cloudStorage.setItem(key, `chunks:${count}:${generation}`);
+        }
+
+        // Same-millisecond saves reuse a generation; keep what we just wrote.
+        await deleteKeys(
+          (previous.chunkKeys ?? []).filter((item) => !written.has(item))
+        );
+      }),
+    removeItem: (key) =>
+      enqueue(async () => {
+        const { chunkKeys } = await readHeader(key);
+        await deleteKeys([key, ...(chunkKeys ?? [])]);
+      }),
+  };
+};
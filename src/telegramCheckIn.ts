@@ -0,0 +1,127 @@
+import WebApp from "@twa-dev/sdk";
+
+import type { CheckInStatus } from "./checkIn";
+import {
+  isSimulatedSource,
+  type FixSample,
+  type SpoofingSignals,
+} from "./checkInSignals";
+import type { Geofence } from "./geofences";
+import type { LocationSourceId } from "./location/types";
+
+/** Bumped whenever the bot-facing payload shape changes. */
+export const CHECK_IN_PAYLOAD_VERSION = 2;
+
+export type CheckInPayload = {
+  type: "check_in";
+  version: number;
+  checkpoint: { id: string; name: string };
+  position: { lat: number; lng: number };
+  /** Accuracy radius in metres, rounded to one decimal. */
+  accuracy: number;
+  source: LocationSourceId | "unknown";
+  status: CheckInStatus;
+  /** True when the position came from the simulator or a scripted route. */
+  simulated: boolean;
+  /** Time of the fix the check-in is based on (ms since epoch). */
+  timestamp: number;
+  /** Time the user pressed the button (ms since epoch). */
+  sentAt: number;
+  signals: SpoofingSignals;
+  /** Recent fixes, oldest first, for server-side re-checks. */
+  trail: FixSample[];
+  /**
+   * Raw Telegram `initData`, signed by Telegram with the bot token. Empty
+   * outside Telegram. Servers verify it to tie the check-in to a user.
+   */
+  initData: string;
+};
+
+export type CheckInPosition = {
+  lat: number;
+  lng: number;
+  accuracy: number;
+  source?: LocationSourceId;
+  timestamp?: number;
+};
+
+export const buildCheckInPayload = (
+  geofence: Geofence,
+  position: CheckInPosition,
+  status: CheckInStatus,
+  signals: SpoofingSignals,
+  trail: FixSample[],
+  now = Date.now()
+): CheckInPayload => ({
+  type: "check_in",
+  version: CHECK_IN_PAYLOAD_VERSION,
+  checkpoint: { id: geofence.id, name: geofence.name },
+  position: {
+    lat: Number(position.lat.toFixed(6)),
+    lng: Number(position.lng.toFixed(6)),
+  },
+  accuracy: Math.round(position.accuracy * 10) / 10,
+  source: position.source ?? "unknown",
+  status,
+  simulated: isSimulatedSource(position.source),
+  timestamp: position.timestamp ?? now,
+  sentAt: now,
+  signals,
+  trail,
+  initData: WebApp.initData,
+});
+
+/** `initData` is only populated when the page runs inside a Telegram client. */
+export const isTelegramWebApp = () => Boolean(WebApp.initData);
+
+/** Telegram user id, or null outside Telegram. */
+export const getTelegramUserId = () => WebApp.initDataUnsafe?.user?.id ?? null;
+
+export const getTelegramUserName = () =>
+  WebApp.initDataUnsafe?.user?.first_name ?? null;
+
+/**
+ * Shows the Telegram MainButton with the given label. Returns a cleanup that
+ * detaches the handler and hides the button again.
+ */
+export const showMainButton = (text: string, onClick: () => void) => {
+  if (!isTelegramWebApp()) {
+    return () => undefined;
+  }
+
+  const button = WebApp.MainButton;
+  button.setParams({ text, is_active: true, is_visible: true });
+  button.onClick(onClick);
+
+  return () => {
+    button.offClick(onClick);
+    button.hideProgress();
+    button.hide();
+  };
+};
+
+/** HapticFeedback was added in Bot API 6.1; older clients throw on use. */
+const canUseHaptics = () =>
+  isTelegramWebApp() && WebApp.isVersionAtLeast("6.1");
+
+export const hapticImpact = (
+  style: "light" | "medium" | "heavy" | "rigid" | "soft" = "medium"
+) => {
+  if (canUseHaptics()) {
+    WebApp.HapticFeedback.impactOccurred(style);
+  }
+};
+
+export const hapticNotification = (type: "error" | "success" | "warning") => {
+  if (canUseHaptics()) {
+    WebApp.HapticFeedback.notificationOccurred(type);
+  }
+};
+
+/**
+ * Sends the payload to the bot. Telegram closes the Mini App afterwards and
+ * only accepts data from apps opened via a keyboard button.
+ */
+export const sendCheckIn = (payload: CheckInPayload) => {
+  WebApp.sendData(JSON.stringify(payload));
+};
@@ -0,0 +1,57 @@
+import { themeParams, viewport } from "@telegram-apps/sdk";
+
+/**
+ * Exposes the Telegram palette (`--tg-theme-*`) and viewport safe-area insets
+ * (`--tg-viewport-*`) as CSS variables that follow live theme and viewport
+ * changes. `onSchemeChange` receives the current scheme immediately and on
+ * every switch. Outside Telegram nothing is bound and the CSS fallbacks apply.
+ *
+ * Requires `init()` from @telegram-apps/sdk to have run. Returns a cleanup.
+ */
+export const bindTelegramTheme = (onSchemeChange: (dark: boolean) => void) => {
+  const cleanups: VoidFunction[] = [];
+  let disposed = false;
+
+  try {
+    if (themeParams.mountSync.isAvailable()) {
+      themeParams.mountSync();
+    }
+    if (themeParams.bindCssVars.isAvailable()) {
+      cleanups.push(themeParams.bindCssVars());
+    }
+    if (themeParams.isMounted()) {
+      cleanups.push(
+        themeParams.isDark.sub((dark) => {
+          onSchemeChange(dark);
+        })
+      );
+      onSchemeChange(themeParams.isDark());
+    }
+  } catch (error) {
+    console.warn("Unable to bind Telegram theme", error);
+  }
+
+  const bindViewport = () => {
+    if (!disposed && viewport.bindCssVars.isAvailable()) {
+      cleanups.push(viewport.bindCssVars());
+    }
+  };
+
+  // A previous (StrictMode) mount may still be in flight; wait for it.
+  const mounting = viewport.isMounted()
+    ? Promise.resolve()
+    : viewport.isMounting()
+    ? viewport.mountPromise()
+    : viewport.mount.isAvailable()
+    ? viewport.mount()
+    : undefined;
+
+  mounting?.then(bindViewport).catch((error) => {
+    console.warn("Unable to mount Telegram viewport", error);
+  });
+
+  return () => {
+    disposed = true;
+    cleanups.forEach((cleanup) => cleanup());
+  };
+};
@@ -0,0 +1,204 @@
+import type L from "leaflet";
+import { getTileSources, type TileSource } from "./tileSources";
+
+export type TileCacheStats = {
+  count: number;
+  bytes: number;
+  quotaBytes: number;
+};
+
+export type TileDownloadProgress = {
+  done: number;
+  failed: number;
+  total: number;
+};
+
+/** Rough average size of a raster map tile, used for download estimates. */
+export const AVERAGE_TILE_BYTES = 25 * 1024;
+export const MAX_PREFETCH_TILES = 5000;
+const PREFETCH_CONCURRENCY = 4;
+/** `serviceWorker.ready` never settles when registration failed. */
+const WORKER_READY_TIMEOUT = 5000;
+
+export const isTileCacheSupported = () =>
+  typeof navigator !== "undefined" && "serviceWorker" in navigator;
+
+/** Hosts the tile templates resolve to, with `{s}` expanded. */
+const getTileHosts = (sources: TileSource[]) => {
+  const hosts = new Set<string>();
+  sources.forEach(({ url, subdomains }) => {
+    const match = /^(?:[a-z][a-z0-9+.-]*:)?\/\/([^/?#]+)/i.exec(url);
+    const host = match ? match[1] : window.location.host;
+    (host.includes("{s}") ? subdomains ?? ["a", "b", "c"] : [""]).forEach(
+      (subdomain) => {
+        hosts.add(host.replace("{s}", subdomain).toLowerCase());
+      }
+    );
+  });
+  return [...hosts];
+};
+
+/**
+ * The worker only caches requests to the configured tile hosts; they are
+ * passed in its script URL so the fetch handler can check them synchronously.
+ */
+export const registerTileCache = async () => {
+  if (!isTileCacheSupported()) {
+    return null;
+  }
+
+  const hosts = getTileHosts(getTileSources()).join(",");
+  return navigator.serviceWorker.register(
+    `${import.meta.env.BASE_URL}tile-sw.js?hosts=${encodeURIComponent(hosts)}`,
+    { scope: import.meta.env.BASE_URL }
+  );
+};
+
+const getTileCacheWorker = () =>
+  new Promise<ServiceWorker>((resolve, reject) => {
+    const timerId = setTimeout(
+      () => reject(new Error("Tile cache is not available.")),
+      WORKER_READY_TIMEOUT
+    );
+    navigator.serviceWorker.ready.then((registration) => {
+      clearTimeout(timerId);
+      if (registration.active) {
+        resolve(registration.active);
+      } else {
+        reject(new Error("Tile cache is not active yet."));
+      }
+    }, reject);
+  });
+
+const postToTileCache = async <T>(message: object): Promise<T> => {
+  const worker = await getTileCacheWorker();
+
+  return new Promise<T>((resolve, reject) => {
+    const channel = new MessageChannel();
+    channel.port1.onmessage = (event) => {
+      if (event.data?.ok) {
+        resolve(event.data.result as T);
+      } else {
+        reject(new Error(event.data?.error ?? "Tile cache request failed."));
+      }
+    };
+    worker.postMessage(message, [channel.port2]);
+  });
+};
+
+export const getTileCacheStats = () =>
+  postToTileCache<TileCacheStats>({ type: "stats" });
+
+export const setTileCacheQuota = (quotaBytes: number) =>
+  postToTileCache<TileCacheStats>({ type: "set-quota", quotaBytes });
+
+export const clearTileCache = () =>
+  postToTileCache<TileCacheStats>({ type: "clear" });
+
+const longitudeToTileX = (lng: number, zoom: number) =>
+  Math.floor(((lng + 180) / 360) * 2 ** zoom);
+
+const latitudeToTileY = (lat: number, zoom: number) => {
+  const radians = (Math.max(Math.min(lat, 85.0511), -85.0511) * Math.PI) / 180;
+  return Math.floor(
+    ((1 - Math.log(Math.tan(radians) + 1 / Math.cos(radians)) / Math.PI) / 2) *
+      2 ** zoom
+  );
+};
+
+export const countTilesInBounds = (
+  bounds: L.LatLngBounds,
+  minZoom: number,
+  maxZoom: number
+) => {
+  let count = 0;
+  for (let zoom = minZoom; zoom <= maxZoom; zoom += 1) {
+    const width =
+      longitudeToTileX(bounds.getEast(), zoom) -
+      longitudeToTileX(bounds.getWest(), zoom) +
+      1;
+    const height =
+      latitudeToTileY(bounds.getSouth(), zoom) -
+      latitudeToTileY(bounds.getNorth(), zoom) +
+      1;
+    count += width * height;
+  }
+  return count;
+};
+
+/** Expands an XYZ template such as `https://{s}.tile.example/{z}/{x}/{y}.png`. */
+export const getTileUrlsInBounds = (
+  template: string,
+  bounds: L.LatLngBounds,
+  minZoom: number,
+  maxZoom: number,
+  subdomains: string[] = ["a", "b", "c"]
+) => {
+  const urls: string[] = [];
+
+  for (let zoom = minZoom; zoom <= maxZoom; zoom += 1) {
+    const minX = longitudeToTileX(bounds.getWest(), zoom);
+    const maxX = longitudeToTileX(bounds.getEast(), zoom);
+    const minY = latitudeToTileY(bounds.getNorth(), zoom);
+    const maxY = latitudeToTileY(bounds.getSouth(), zoom);
+
+    for (let x = minX; x <= maxX; x += 1) {
+      for (let y = minY; y <= maxY; y += 1) {
+        const subdomain = subdomains[(x + y) % subdomains.length] ?? "";
+        urls.push(
+          template
+            .replace("{s}", subdomain)
+            .replace("{z}", String(zoom))
+            .replace("{x}", String(x))
+            .replace("{y}", String(y))
+            .replace("{r}", "")
+        );
+      }
+    }
+  }
+
+  return urls;
+};
+
+/**
+ * Requests every URL so the service worker writes the tiles to its cache.
+ * Resolves with the final progress once all requests settle or the signal
+ * aborts.
+ */
+export const prefetchTiles = async (
+  urls: string[],
+  onProgress: (progress: TileDownloadProgress) => void,
+  signal?: AbortSignal
+): Promise<TileDownloadProgress> => {
+  const progress = { done: 0, failed: 0, total: urls.length };
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < urls.length && !signal?.aborted) {
+      const url = urls[nextIndex];
+      nextIndex += 1;
+
+      try {
+        const response = await fetch(url, { mode: "cors", signal });
+        if (!response.ok) {
+          progress.failed += 1;
+        }
+        await response.arrayBuffer();
+      } catch (error) {
+        if (signal?.aborted) {
+          break;
+        }
+        progress.failed += 1;
+      }
+
+      progress.done += 1;
+      onProgress({ ...progress });
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: PREFETCH_CONCURRENCY }, () => worker())
+  );
+
+  return progress;
+};
@@ -0,0 +1,197 @@
+export type TileSource = {
+  id: string;
+  name: string;
+  kind: "base" | "overlay";
+  /** XYZ template, e.g. `https://{s}.example.com/{z}/{x}/{y}.png`. */
+  url: string;
+  attribution: string;
+  subdomains?: string[];
+  maxZoom?: number;
+  /** Marks dark base maps so they can follow a dark UI theme. */
+  dark?: boolean;
+};
+
+export type TileSelection = {
+  baseId: string;
+  overlayIds: string[];
+};
+
+declare global {
+  interface Window {
+    /** Optional runtime tile sources, e.g. injected by a hosting page. */
+    __TILE_SOURCES__?: TileSource[];
+  }
+}
+
+const SELECTION_STORAGE_KEY = "tile-selection";
+
+export const BUILT_IN_TILE_SOURCES: TileSource[] = [
+  {
+    id: "osm",
+    name: "OpenStreetMap",
+    kind: "base",
+    url: "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png",
+    attribution: "&copy; OpenStreetMap contributors",
+    subdomains: ["a", "b", "c"],
+    maxZoom: 19,
+  },
+  {
+    id: "satellite",
+    name: "Satellite",
+    kind: "base",
+    url: "https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}",
+    attribution: "Tiles &copy; Esri, Maxar, Earthstar Geographics",
+    maxZoom: 19,
+  },
+  {
+    id: "dark",
+    name: "Dark",
+    kind: "base",
+    url: "https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png",
+    attribution: "&copy; OpenStreetMap contributors &copy; CARTO",
+    subdomains: ["a", "b", "c", "d"],
+    maxZoom: 19,
+    dark: true,
+  },
+  {
+    id: "labels",
+    name: "Labels",
+    kind: "overlay",
+    url: "https://{s}.basemaps.cartocdn.com/light_only_labels/{z}/{x}/{y}{r}.png",
+    attribution: "&copy; CARTO",
+    subdomains: ["a", "b", "c", "d"],
+    maxZoom: 19,
+  },
+];
+
+const isTileSource = (value: unknown): value is TileSource => {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+
+  const source = value as Record<string, unknown>;
+  return (
+    ["id", "name", "url", "attribution"].every(
+      (key) => typeof source[key] === "string"
+    ) &&
+    (source.kind === "base" || source.kind === "overlay") &&
+    (source.subdomains === undefined ||
+      (Array.isArray(source.subdomains) &&
+        source.subdomains.every((item) => typeof item === "string"))) &&
+    (source.maxZoom === undefined || Number.isFinite(source.maxZoom)) &&
+    (source.dark === undefined || typeof source.dark === "boolean")
+  );
+};
+
+/** Keeps well-formed entries; a bad one is dropped rather than breaking the map. */
+const validateTileSources = (value: unknown, origin: string): TileSource[] => {
+  if (!Array.isArray(value)) {
+    console.warn(`${origin} must be an array of tile sources`);
+    return [];
+  }
+
+  return value.filter((entry, index) => {
+    if (isTileSource(entry)) {
+      return true;
+    }
+    console.warn(`Ignoring invalid tile source ${index} in ${origin}`, entry);
+    return false;
+  });
+};
+
+const parseEnvTileSources = (value: string | undefined): TileSource[] => {
+  if (!value) {
+    return [];
+  }
+
+  try {
+    return validateTileSources(JSON.parse(value), "VITE_TILE_SOURCES");
+  } catch (error) {
+    console.warn("VITE_TILE_SOURCES is not valid JSON", error);
+    return [];
+  }
+};
+
+const getWindowTileSources = (): TileSource[] =>
+  typeof window !== "undefined" && window.__TILE_SOURCES__ !== undefined
+    ? validateTileSources(window.__TILE_SOURCES__, "window.__TILE_SOURCES__")
+    : [];
+
+const getSelfHostedTileSource = (): TileSource[] => {
+  const url = import.meta.env.VITE_SELF_HOSTED_TILE_URL;
+  if (!url) {
+    return [];
+  }
+
+  return [
+    {
+      id: "self-hosted",
+      name: import.meta.env.VITE_SELF_HOSTED_TILE_NAME || "Self-hosted",
+      kind: "base",
+      url,
+      attribution:
+        import.meta.env.VITE_SELF_HOSTED_TILE_ATTRIBUTION ||
+        "&copy; OpenStreetMap contributors",
+    },
+  ];
+};
+
+/**
+ * Built-in sources, then the self-hosted server, `VITE_TILE_SOURCES` and
+ * `window.__TILE_SOURCES__`. Later entries replace earlier ones with the same
+ * id, so a test setup can point "osm" at a local tile server.
+ */
+export const getTileSources = (): TileSource[] => {
+  const merged = new Map<string, TileSource>();
+  [
+    ...BUILT_IN_TILE_SOURCES,
+    ...getSelfHostedTileSource(),
+    ...parseEnvTileSources(import.meta.env.VITE_TILE_SOURCES),
+    ...getWindowTileSources(),
+  ].forEach((source) => {
+    merged.set(source.id, source);
+  });
+
+  return [...merged.values()];
+};
+
+export const getDefaultTileSelection = (
+  sources: TileSource[]
+): TileSelection => {
+  const preferred = import.meta.env.VITE_DEFAULT_TILE_SOURCE;
+  const base =
+    sources.find(
+      (source) => source.kind === "base" && source.id === preferred
+    ) ?? sources.find((source) => source.kind === "base");
+
+  return { baseId: base?.id ?? "", overlayIds: [] };
+};
+
+export const loadTileSelection = (sources: TileSource[]): TileSelection => {
+  const fallback = getDefaultTileSelection(sources);
+
+  try {
+    const stored = JSON.parse(
+      localStorage.getItem(SELECTION_STORAGE_KEY) ?? "null"
+    ) as Partial<TileSelection> | null;
+    const ids = new Set(sources.map((source) => source.id));
+
+    return {
+      baseId:
+        stored?.baseId && ids.has(stored.baseId)
+          ? stored.baseId
+          : fallback.baseId,
+      overlayIds: (stored?.overlayIds ?? []).filter((id) => ids.has(id)),
+    };
+  } catch (error) {
+    return fallback;
+  }
+};
+
+export const saveTileSelection = (selection: TileSelection) => {
+  try {
+    localStorage.setItem(SELECTION_STORAGE_KEY, JSON.stringify(selection));
+  } catch (error) {
+    // storage can be unavailable in private mode; the choice just won't stick
+  }
+};
@@ -0,0 +1,93 @@
+import { escapeXml } from "./files";
+import { getDistanceInMeters } from "./geo";
+
+export type TrackPoint = {
+  lat: number;
+  lng: number;
+  accuracy: number;
+  timestamp: number;
+};
+
+export type TrackStats = {
+  distance: number;
+  duration: number;
+  /** Meters per second, 0 until the track spans some time. */
+  averageSpeed: number;
+};
+
+const GPX_EXTENSION_NAMESPACE =
+  "https://github.com/justafewtests/try-leaflet-tma";
+
+export const getTrackStats = (points: TrackPoint[]): TrackStats => {
+  let distance = 0;
+  for (let index = 1; index < points.length; index += 1) {
+    const previous = points[index - 1];
+    const current = points[index];
+    distance += getDistanceInMeters(
+      previous.lat,
+      previous.lng,
+      current.lat,
+      current.lng
+    );
+  }
+
+  const duration =
+    points.length > 1
+      ? (points[points.length - 1].timestamp - points[0].timestamp) / 1000
+      : 0;
+
+  return {
+    distance,
+    duration,
+    averageSpeed: duration > 0 ? distance / duration : 0,
+  };
+};
+
+export const toGpx = (points: TrackPoint[], name: string) => {
+  const trackPoints = points
+    .map(
+      (point) =>
+        `      <trkpt lat="${point.lat.toFixed(7)}" lon="${point.lng.toFixed(
+          7
+        )}">\n` +
+        `        <time>${new Date(point.timestamp).toISOString()}</time>\n` +
+        `        <extensions><tma:accuracy>${point.accuracy.toFixed(
+          1
+        )}</tma:accuracy></extensions>\n` +
+        `      </trkpt>`
+    )
+    .join("\n");
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="try-leaflet-tma" xmlns="http://www.topografix.com/GPX/1/1" xmlns:tma="${GPX_EXTENSION_NAMESPACE}">`,
+    "  <trk>",
+    `    <name>${escapeXml(name)}</name>`,
+    "    <trkseg>",
+    trackPoints,
+    "    </trkseg>",
+    "  </trk>",
+    "</gpx>",
+    "",
+  ].join("\n");
+};
+
+export const toGeoJson = (points: TrackPoint[], name: string) =>
+  JSON.stringify(
+    {
+      type: "Feature",
+      properties: {
+        name,
+        coordTimes: points.map((point) =>
+          new Date(point.timestamp).toISOString()
+        ),
+        accuracies: points.map((point) => point.accuracy),
+      },
+      geometry: {
+        type: "LineString",
+        coordinates: points.map((point) => [point.lng, point.lat]),
+      },
+    },
+    null,
+    2
+  );
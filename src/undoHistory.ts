@@ -0,0 +1,52 @@
+export type UndoHistory<T> = {
+  /** Earlier values, oldest first. */
+  past: T[];
+  /** Undone values, next redo first. */
+  future: T[];
+};
+
+export const UNDO_HISTORY_LIMIT = 50;
+
+export const createUndoHistory = <T>(): UndoHistory<T> => ({
+  past: [],
+  future: [],
+});
+
+/** Records `current` before it is replaced by an edit; clears redo. */
+export const recordUndo = <T>(
+  history: UndoHistory<T>,
+  current: T,
+  limit = UNDO_HISTORY_LIMIT
+): UndoHistory<T> => ({
+  past: [...history.past, current].slice(-limit),
+  future: [],
+});
+
+/** Returns the value to restore and the updated history, or null. */
+export const undo = <T>(history: UndoHistory<T>, current: T) => {
+  if (history.past.length === 0) {
+    return null;
+  }
+
+  return {
+    value: history.past[history.past.length - 1],
+    history: {
+      past: history.past.slice(0, -1),
+      future: [current, ...history.future],
+    },
+  };
+};
+
+export const redo = <T>(history: UndoHistory<T>, current: T) => {
+  if (history.future.length === 0) {
+    return null;
+  }
+
+  return {
+    value: history.future[0],
+    history: {
+      past: [...history.past, current],
+      future: history.future.slice(1),
+    },
+  };
+};
@@ -0,0 +1,201 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+import {
+  DEFAULT_CHECK_IN_OPTIONS,
+  evaluateCheckIn,
+  type CheckInResult,
+} from "./checkIn";
+import {
+  computeSpoofingSignals,
+  createFixTrail,
+  type FixSample,
+} from "./checkInSignals";
+import type { GeofenceEngine } from "./geofenceEngine";
+import {
+  evaluateGeofence,
+  type Geofence,
+  type GeofenceState,
+} from "./geofences";
+import {
+  buildCheckInPayload,
+  hapticImpact,
+  hapticNotification,
+  sendCheckIn,
+  showMainButton,
+  type CheckInPosition,
+} from "./telegramCheckIn";
+
+export const CHECK_IN_ACCURACY_OPTIONS = [10, 25, 50, 100];
+
+export type CheckInCandidate = {
+  geofence: Geofence;
+  state: GeofenceState;
+  result: CheckInResult;
+};
+
+type UseCheckInOptions = {
+  geofences: Geofence[];
+  geofenceStates: Record<string, GeofenceState>;
+  geofenceEngine: GeofenceEngine;
+  position: CheckInPosition | null;
+  mode: "gps" | "simulated";
+  /** Spoofing signals are only worked out while the debug overlay is open. */
+  debugVisible: boolean;
+  /** Called with the checkpoint id after a confirmed check-in is sent. */
+  onConfirmed: (checkpointId: string) => void;
+  setStatusMessage: (message: string) => void;
+};
+
+/**
+ * Check-in grading for the fences around the position, and the Telegram
+ * MainButton that sends one for the fence most recently entered.
+ */
+export const useCheckIn = ({
+  geofences,
+  geofenceStates,
+  geofenceEngine,
+  position,
+  mode,
+  debugVisible,
+  onConfirmed,
+  setStatusMessage,
+}: UseCheckInOptions) => {
+  const positionRef = useRef(position);
+  /** Raw recent fixes for the anti-spoofing signals sent with check-ins. */
+  const [fixTrail] = useState(() => createFixTrail());
+  /** The trail's samples as of the last change, so views can memoize on it. */
+  const [trailSamples, setTrailSamples] = useState<FixSample[]>([]);
+  const [maxCheckInAccuracy, setMaxCheckInAccuracy] = useState(
+    DEFAULT_CHECK_IN_OPTIONS.maxConfirmedAccuracy
+  );
+  /** Fence most recently entered; drives the Telegram MainButton. */
+  const [checkInTargetId, setCheckInTargetId] = useState<string | null>(null);
+
+  positionRef.current = position;
+
+  const checkInOptions = useMemo(
+    () => ({
+      ...DEFAULT_CHECK_IN_OPTIONS,
+      maxConfirmedAccuracy: maxCheckInAccuracy,
+    }),
+    [maxCheckInAccuracy]
+  );
+
+  const checkIns = useMemo((): CheckInCandidate[] => {
+    if (!position) {
+      return [];
+    }
+
+    return geofences
+      .filter((geofence) => geofenceStates[geofence.id])
+      .map((geofence) => ({
+        geofence,
+        state: geofenceStates[geofence.id],
+        result: evaluateCheckIn(
+          geofence,
+          geofenceStates[geofence.id],
+          position.accuracy,
+          checkInOptions
+        ),
+      }))
+      .filter(({ result }) => result.status !== "outside");
+  }, [geofences, geofenceStates, position, checkInOptions]);
+
+  useEffect(() => {
+    // A jump between simulated and real positions is not a real movement,
+    // but the time since the last real fix still matters.
+    fixTrail.clearSamples();
+    setTrailSamples(fixTrail.getSamples());
+  }, [fixTrail, mode]);
+
+  const recordCheckInFix = useCallback(
+    (sample: FixSample) => {
+      fixTrail.push(sample);
+      setTrailSamples(fixTrail.getSamples());
+    },
+    [fixTrail]
+  );
+
+  useEffect(
+    () =>
+      geofenceEngine.subscribe((event) => {
+        if (event.type === "enter") {
+          setCheckInTargetId(event.geofence.id);
+          hapticImpact("medium");
+        } else if (event.type === "exit") {
+          setCheckInTargetId((current) =>
+            current === event.geofence.id ? null : current
+          );
+        }
+      }),
+    [geofenceEngine]
+  );
+
+  const spoofingSignals = useMemo(
+    () =>
+      debugVisible
+        ? computeSpoofingSignals(trailSamples, fixTrail.getLastRealFixAt())
+        : null,
+    [debugVisible, fixTrail, trailSamples]
+  );
+
+  const checkInTarget = useMemo(
+    () => geofences.find((item) => item.id === checkInTargetId) ?? null,
+    [geofences, checkInTargetId]
+  );
+
+  useEffect(() => {
+    if (!checkInTarget) {
+      return;
+    }
+
+    const handleCheckIn = () => {
+      const current = positionRef.current;
+      if (!current) {
+        hapticNotification("error");
+        setStatusMessage("No position to check in with");
+        return;
+      }
+
+      const state = evaluateGeofence(checkInTarget, current.lat, current.lng);
+      const { status } = evaluateCheckIn(
+        checkInTarget,
+        state,
+        current.accuracy,
+        checkInOptions
+      );
+      if (status === "outside") {
+        hapticNotification("error");
+        setStatusMessage(`Not at ${checkInTarget.name} any more`);
+        return;
+      }
+
+      hapticNotification(status === "confirmed" ? "success" : "warning");
+      sendCheckIn(
+        buildCheckInPayload(
+          checkInTarget,
+          current,
+          status,
+          computeSpoofingSignals(
+            fixTrail.getSamples(),
+            fixTrail.getLastRealFixAt()
+          ),
+          fixTrail.getSamples()
+        )
+      );
+      if (status === "confirmed") {
+        onConfirmed(checkInTarget.id);
+      }
+    };
+
+    return showMainButton(`Check in at ${checkInTarget.name}`, handleCheckIn);
+  }, [checkInTarget, checkInOptions, fixTrail, onConfirmed, setStatusMessage]);
+
+  return {
+    maxCheckInAccuracy,
+    setMaxCheckInAccuracy,
+    checkIns,
+    spoofingSignals,
+    recordCheckInFix,
+  };
+};
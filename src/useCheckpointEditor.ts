@@ -0,0 +1,233 @@
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useState,
+  type Dispatch,
+  type SetStateAction,
+} from "react";
+import L from "leaflet";
+
+import { createCheckpointHandles } from "./checkpointEditor";
+import { toCheckpointGeoJson } from "./checkpointExport";
+import { downloadTextFile } from "./files";
+import { updateGeofenceLayers, type GeofenceLayers } from "./geofenceLayers";
+import type { Geofence } from "./geofences";
+import {
+  createUndoHistory,
+  recordUndo,
+  redo,
+  undo,
+  type UndoHistory,
+} from "./undoHistory";
+
+const NEW_CHECKPOINT_RADIUS = 20;
+
+type UseCheckpointEditorOptions = {
+  geofences: Geofence[];
+  setGeofences: Dispatch<SetStateAction<Geofence[]>>;
+  /** Kept current by the caller; edits write through it straight away. */
+  geofencesRef: { current: Geofence[] };
+  geofenceLayersRef: { readonly current: Map<string, GeofenceLayers> };
+  mapRef: { readonly current: L.Map | null };
+  setStatusMessage: (message: string) => void;
+};
+
+/**
+ * On-map checkpoint editing: drag handles, adding by tapping the map,
+ * renaming and deleting, with every change undoable.
+ */
+export const useCheckpointEditor = ({
+  geofences,
+  setGeofences,
+  geofencesRef,
+  geofenceLayersRef,
+  mapRef,
+  setStatusMessage,
+}: UseCheckpointEditorOptions) => {
+  const [editingCheckpoints, setEditingCheckpoints] = useState(false);
+  const [selectedCheckpointId, setSelectedCheckpointId] = useState<
+    string | null
+  >(null);
+  const [checkpointName, setCheckpointName] = useState("");
+  const [geofenceHistory, setGeofenceHistory] =
+    useState<UndoHistory<Geofence[]>>(createUndoHistory);
+
+  /** Replaces the checkpoint list as one undoable edit. */
+  const commitGeofences = useCallback(
+    (next: Geofence[]) => {
+      const current = geofencesRef.current;
+      geofencesRef.current = next;
+      setGeofenceHistory((history) => recordUndo(history, current));
+      setGeofences(next);
+    },
+    [geofencesRef, setGeofences]
+  );
+
+  const updateCheckpoint = useCallback(
+    (geofence: Geofence) => {
+      commitGeofences(
+        geofencesRef.current.map((item) =>
+          item.id === geofence.id ? geofence : item
+        )
+      );
+    },
+    [geofencesRef, commitGeofences]
+  );
+
+  const addCheckpointAt = useCallback(
+    (lat: number, lng: number) => {
+      const current = geofencesRef.current;
+      const id = `checkpoint-${Date.now().toString(36)}`;
+      commitGeofences([
+        ...current,
+        {
+          id,
+          name: `Checkpoint ${current.length + 1}`,
+          shape: "circle",
+          center: { lat, lng },
+          radius: NEW_CHECKPOINT_RADIUS,
+        },
+      ]);
+      setSelectedCheckpointId(id);
+      setStatusMessage("Checkpoint added");
+    },
+    [geofencesRef, commitGeofences, setStatusMessage]
+  );
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !editingCheckpoints) {
+      return;
+    }
+
+    const layers = geofenceLayersRef.current;
+    const handles: L.Marker[] = [];
+    const shapeClickHandlers: [L.Path, L.LeafletEventHandlerFn][] = [];
+
+    geofences.forEach((geofence) => {
+      const select = () => setSelectedCheckpointId(geofence.id);
+      const shape = layers.get(geofence.id)?.shape;
+      if (shape) {
+        // Selecting a checkpoint must not also add one underneath it.
+        const handleShapeClick = (event: L.LeafletEvent) => {
+          L.DomEvent.stopPropagation(event);
+          select();
+        };
+        shape.on("click", handleShapeClick);
+        shapeClickHandlers.push([shape, handleShapeClick]);
+      }
+
+      createCheckpointHandles(geofence, geofence.id === selectedCheckpointId, {
+        onSelect: select,
+        onPreview: (preview) => {
+          const geofenceLayers = layers.get(geofence.id);
+          if (geofenceLayers) {
+            updateGeofenceLayers(geofenceLayers, preview);
+          }
+        },
+        onChange: updateCheckpoint,
+      }).forEach((handle) => {
+        handle.addTo(map);
+        handles.push(handle);
+      });
+    });
+
+    const handleClick = (event: L.LeafletMouseEvent) => {
+      addCheckpointAt(event.latlng.lat, event.latlng.lng);
+    };
+
+    map.on("click", handleClick);
+    return () => {
+      map.off("click", handleClick);
+      shapeClickHandlers.forEach(([shape, handler]) => {
+        shape.off("click", handler);
+      });
+      handles.forEach((handle) => {
+        handle.remove();
+      });
+    };
+  }, [
+    editingCheckpoints,
+    geofences,
+    selectedCheckpointId,
+    mapRef,
+    geofenceLayersRef,
+    addCheckpointAt,
+    updateCheckpoint,
+  ]);
+
+  const selectedCheckpoint = useMemo(
+    () => geofences.find((item) => item.id === selectedCheckpointId) ?? null,
+    [geofences, selectedCheckpointId]
+  );
+  const selectedCheckpointName = selectedCheckpoint?.name ?? "";
+
+  useEffect(() => {
+    setCheckpointName(selectedCheckpointName);
+  }, [selectedCheckpointName]);
+
+  const handleCheckpointRename = () => {
+    const name = checkpointName.trim();
+    if (!selectedCheckpoint || !name || name === selectedCheckpoint.name) {
+      setCheckpointName(selectedCheckpointName);
+      return;
+    }
+
+    updateCheckpoint({ ...selectedCheckpoint, name });
+  };
+
+  const handleCheckpointDelete = () => {
+    if (!selectedCheckpoint) {
+      return;
+    }
+
+    commitGeofences(
+      geofences.filter((item) => item.id !== selectedCheckpoint.id)
+    );
+    setSelectedCheckpointId(null);
+    setStatusMessage(`Deleted ${selectedCheckpoint.name}`);
+  };
+
+  const handleCheckpointUndo = () => {
+    const result = undo(geofenceHistory, geofences);
+    if (result) {
+      setGeofenceHistory(result.history);
+      setGeofences(result.value);
+    }
+  };
+
+  const handleCheckpointRedo = () => {
+    const result = redo(geofenceHistory, geofences);
+    if (result) {
+      setGeofenceHistory(result.history);
+      setGeofences(result.value);
+    }
+  };
+
+  const handleCheckpointExport = () => {
+    downloadTextFile(
+      "checkpoints.geojson",
+      toCheckpointGeoJson(geofences),
+      "application/geo+json"
+    );
+  };
+
+  return {
+    editingCheckpoints,
+    setEditingCheckpoints,
+    selectedCheckpointId,
+    setSelectedCheckpointId,
+    selectedCheckpoint,
+    checkpointName,
+    setCheckpointName,
+    geofenceHistory,
+    commitGeofences,
+    addCheckpointAt,
+    handleCheckpointRename,
+    handleCheckpointDelete,
+    handleCheckpointUndo,
+    handleCheckpointRedo,
+    handleCheckpointExport,
+  };
+};
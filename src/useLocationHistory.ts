@@ -0,0 +1,409 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import L from "leaflet";
+
+import type { GeofenceEngine } from "./geofenceEngine";
+import type { GeofenceState } from "./geofences";
+import {
+  createHeatmapGrid,
+  findFixIndexAt,
+  getCheckpointStats,
+  getDayRange,
+  toDayString,
+  type HeatmapGrid,
+} from "./history";
+import { createHeatmapLayer, updateHeatmapLayer } from "./historyLayers";
+import {
+  createHistoryStore,
+  DEFAULT_HISTORY_RETENTION,
+  type HistoryEvent,
+  type HistoryFix,
+} from "./storage/historyStore";
+
+export const HISTORY_RETENTION_OPTIONS = [1, 7, 30, 90];
+const HISTORY_PLAYBACK_TICK = 200;
+/** Playback jumps over stretches without fixes longer than this. */
+const HISTORY_PLAYBACK_GAP = 5 * 60 * 1000;
+const HISTORY_PRUNE_INTERVAL = 60 * 60 * 1000;
+/** New fixes are drawn into the open heatmap at most this often. */
+const HEATMAP_REDRAW_INTERVAL = 5000;
+
+type UseLocationHistoryOptions = {
+  geofenceEngine: GeofenceEngine;
+  geofenceStates: Record<string, GeofenceState>;
+  /** Pruning waits for the saved retention setting. */
+  hydrated: boolean;
+  modeRef: { readonly current: "gps" | "simulated" };
+  mapRef: { readonly current: L.Map | null };
+  followRef: { current: boolean };
+  setStatusMessage: (message: string) => void;
+};
+
+/**
+ * Records GPS fixes and checkpoint events, and drives the timeline, replay
+ * and heatmap views of them.
+ */
+export const useLocationHistory = ({
+  geofenceEngine,
+  geofenceStates,
+  hydrated,
+  modeRef,
+  mapRef,
+  followRef,
+  setStatusMessage,
+}: UseLocationHistoryOptions) => {
+  const historyMarkerRef = useRef<L.CircleMarker | null>(null);
+  /** Grid of the open heatmap, fed each fix as it is saved. */
+  const heatmapGridRef = useRef<HeatmapGrid | null>(null);
+  const [historyStore] = useState(() => createHistoryStore());
+  const [historyRetentionDays, setHistoryRetentionDays] = useState(
+    DEFAULT_HISTORY_RETENTION.days
+  );
+  /** Bumped whenever stored history changes so open views reload. */
+  const [historyRevision, setHistoryRevision] = useState(0);
+  /** Bumped when stored fixes are removed so the heatmap is rebuilt. */
+  const [historyFixesRevision, setHistoryFixesRevision] = useState(0);
+  const [timelineOpen, setTimelineOpen] = useState(false);
+  const [historyDay, setHistoryDay] = useState(() => toDayString(Date.now()));
+  const [historyFixes, setHistoryFixes] = useState<HistoryFix[]>([]);
+  /** All retained events, for the per-checkpoint stats. */
+  const [historyEvents, setHistoryEvents] = useState<HistoryEvent[]>([]);
+  const [historyLoadedAt, setHistoryLoadedAt] = useState(() => Date.now());
+  const [historyTime, setHistoryTime] = useState<number | null>(null);
+  const [historyPlaying, setHistoryPlaying] = useState(false);
+  const [historySpeed, setHistorySpeed] = useState(60);
+  const [heatmapVisible, setHeatmapVisible] = useState(false);
+
+  const recordHistoryFix = useCallback(
+    (fix: HistoryFix) => {
+      historyStore
+        ?.addFix(fix)
+        .then(() => {
+          heatmapGridRef.current?.add(fix);
+        })
+        .catch((error) => {
+          console.warn("Unable to save location history", error);
+        });
+    },
+    [historyStore]
+  );
+
+  useEffect(() => {
+    if (!historyStore) {
+      return;
+    }
+
+    return geofenceEngine.subscribe((event) => {
+      // Simulator visits are not places the user has been.
+      if (modeRef.current !== "gps") {
+        return;
+      }
+
+      historyStore
+        .addEvent({
+          type: event.type,
+          checkpointId: event.geofence.id,
+          checkpointName: event.geofence.name,
+          lat: event.position.lat,
+          lng: event.position.lng,
+          timestamp: event.timestamp,
+          dwellTime: event.dwellTime,
+        })
+        .then(() => {
+          setHistoryRevision((revision) => revision + 1);
+        })
+        .catch((error) => {
+          console.warn("Unable to save location history", error);
+        });
+    });
+  }, [geofenceEngine, historyStore, modeRef]);
+
+  useEffect(() => {
+    if (!hydrated || !historyStore) {
+      return;
+    }
+
+    // Pruned again while the app stays open, not just at startup.
+    const prune = () => {
+      historyStore
+        .prune({ ...DEFAULT_HISTORY_RETENTION, days: historyRetentionDays })
+        .then(() => {
+          setHistoryRevision((revision) => revision + 1);
+          setHistoryFixesRevision((revision) => revision + 1);
+        })
+        .catch((error) => {
+          console.warn("Unable to prune location history", error);
+        });
+    };
+
+    prune();
+    const timerId = window.setInterval(prune, HISTORY_PRUNE_INTERVAL);
+    return () => {
+      window.clearInterval(timerId);
+    };
+  }, [hydrated, historyStore, historyRetentionDays]);
+
+  useEffect(() => {
+    const range = getDayRange(historyDay);
+    if (!timelineOpen || !historyStore || !range) {
+      return;
+    }
+
+    let cancelled = false;
+    Promise.all([
+      historyStore.getFixes(range.from, range.to),
+      historyStore.getEvents(0, Infinity),
+    ])
+      .then(([fixes, events]) => {
+        if (cancelled) {
+          return;
+        }
+
+        const first = fixes[0]?.timestamp;
+        const last = fixes[fixes.length - 1]?.timestamp;
+        setHistoryFixes(fixes);
+        setHistoryEvents(events);
+        setHistoryLoadedAt(Date.now());
+        // Keep the scrub position when reloading the same day.
+        setHistoryTime((current) =>
+          current !== null && current >= first && current <= last
+            ? current
+            : last ?? null
+        );
+      })
+      .catch((error) => {
+        console.warn("Unable to load location history", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [timelineOpen, historyStore, historyDay, historyRevision]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !timelineOpen || historyFixes.length === 0) {
+      return;
+    }
+
+    const path = L.polyline(
+      historyFixes.map((fix) => L.latLng(fix.lat, fix.lng)),
+      { color: "#0ea5e9", weight: 3, opacity: 0.6 }
+    ).addTo(map);
+    const marker = L.circleMarker(
+      L.latLng(historyFixes[0].lat, historyFixes[0].lng),
+      {
+        radius: 8,
+        color: "#0369a1",
+        fillColor: "#38bdf8",
+        fillOpacity: 1,
+        weight: 2,
+      }
+    ).addTo(map);
+    historyMarkerRef.current = marker;
+
+    return () => {
+      path.remove();
+      marker.remove();
+      if (historyMarkerRef.current === marker) {
+        historyMarkerRef.current = null;
+      }
+    };
+  }, [mapRef, timelineOpen, historyFixes]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    const marker = historyMarkerRef.current;
+    const fix =
+      historyTime === null
+        ? undefined
+        : historyFixes[Math.max(findFixIndexAt(historyFixes, historyTime), 0)];
+    if (!map || !marker || !fix) {
+      return;
+    }
+
+    const latLng = L.latLng(fix.lat, fix.lng);
+    marker.setLatLng(latLng);
+    if (!map.getBounds().contains(latLng)) {
+      followRef.current = false;
+      map.panTo(latLng);
+    }
+  }, [mapRef, followRef, historyFixes, historyTime]);
+
+  useEffect(() => {
+    const end = historyFixes[historyFixes.length - 1]?.timestamp;
+    if (!historyPlaying || end === undefined) {
+      return;
+    }
+
+    const timerId = window.setInterval(() => {
+      setHistoryTime((current) => {
+        const time = current ?? historyFixes[0].timestamp;
+        const upcoming = historyFixes[findFixIndexAt(historyFixes, time) + 1];
+        const next = time + HISTORY_PLAYBACK_TICK * historySpeed;
+        return Math.min(
+          upcoming && upcoming.timestamp - time > HISTORY_PLAYBACK_GAP
+            ? upcoming.timestamp
+            : next,
+          end
+        );
+      });
+    }, HISTORY_PLAYBACK_TICK);
+    return () => {
+      window.clearInterval(timerId);
+    };
+  }, [historyPlaying, historySpeed, historyFixes]);
+
+  const historyEnd = historyFixes[historyFixes.length - 1]?.timestamp ?? null;
+
+  useEffect(() => {
+    if (historyPlaying && historyTime !== null && historyTime === historyEnd) {
+      setHistoryPlaying(false);
+    }
+  }, [historyPlaying, historyTime, historyEnd]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !heatmapVisible || !historyStore) {
+      return;
+    }
+
+    let cancelled = false;
+    let changed = false;
+    const grid = createHeatmapGrid();
+    const layer = createHeatmapLayer();
+    layer.group.addTo(map);
+    // History is read once; later fixes are added to the grid as they are
+    // saved and drawn in batches.
+    historyStore
+      .getFixes(0, Infinity)
+      .then((fixes) => {
+        if (cancelled) {
+          return;
+        }
+        if (fixes.length === 0) {
+          setStatusMessage("No location history yet");
+        }
+        fixes.forEach(grid.add);
+        updateHeatmapLayer(layer, grid.getCells());
+        heatmapGridRef.current = {
+          ...grid,
+          add: (fix) => {
+            grid.add(fix);
+            changed = true;
+          },
+        };
+      })
+      .catch((error) => {
+        console.warn("Unable to load location history", error);
+      });
+    const timerId = window.setInterval(() => {
+      if (changed) {
+        changed = false;
+        updateHeatmapLayer(layer, grid.getCells());
+      }
+    }, HEATMAP_REDRAW_INTERVAL);
+
+    return () => {
+      cancelled = true;
+      window.clearInterval(timerId);
+      heatmapGridRef.current = null;
+      layer.group.remove();
+    };
+  }, [
+    mapRef,
+    heatmapVisible,
+    historyStore,
+    historyFixesRevision,
+    setStatusMessage,
+  ]);
+
+  const checkpointStats = useMemo(
+    () =>
+      getCheckpointStats(
+        historyEvents,
+        new Set(
+          Object.keys(geofenceStates).filter((id) => geofenceStates[id].inside)
+        ),
+        historyLoadedAt
+      ),
+    [historyEvents, geofenceStates, historyLoadedAt]
+  );
+  const historyEventAtTime = useMemo(() => {
+    const range = getDayRange(historyDay);
+    if (historyTime === null || !range) {
+      return null;
+    }
+
+    for (let index = historyEvents.length - 1; index >= 0; index -= 1) {
+      const event = historyEvents[index];
+      if (event.timestamp <= historyTime) {
+        return event.timestamp >= range.from ? event : null;
+      }
+    }
+    return null;
+  }, [historyEvents, historyDay, historyTime]);
+
+  const handleTimelineToggle = () => {
+    if (timelineOpen) {
+      setHistoryPlaying(false);
+      setHistoryFixes([]);
+      setHistoryTime(null);
+    }
+    setTimelineOpen(!timelineOpen);
+  };
+
+  const handleHistoryPlayToggle = () => {
+    const first = historyFixes[0];
+    if (historyPlaying || !first) {
+      setHistoryPlaying(false);
+      return;
+    }
+
+    if (historyTime === null || historyTime === historyEnd) {
+      setHistoryTime(first.timestamp);
+    }
+    setHistoryPlaying(true);
+  };
+
+  const handleHistoryClear = async () => {
+    if (!historyStore) {
+      return;
+    }
+
+    try {
+      await historyStore.clear();
+      setHistoryPlaying(false);
+      setHistoryRevision((revision) => revision + 1);
+      setHistoryFixesRevision((revision) => revision + 1);
+      setStatusMessage("Location history cleared");
+    } catch (error) {
+      console.warn("Unable to clear location history", error);
+      setStatusMessage("Unable to clear location history");
+    }
+  };
+
+  return {
+    historyStore,
+    historyRetentionDays,
+    setHistoryRetentionDays,
+    timelineOpen,
+    historyDay,
+    setHistoryDay,
+    historyFixes,
+    historyEnd,
+    historyTime,
+    setHistoryTime,
+    historyPlaying,
+    setHistoryPlaying,
+    historySpeed,
+    setHistorySpeed,
+    heatmapVisible,
+    setHeatmapVisible,
+    checkpointStats,
+    historyEventAtTime,
+    recordHistoryFix,
+    handleTimelineToggle,
+    handleHistoryPlayToggle,
+    handleHistoryClear,
+  };
+};
@@ -0,0 +1,339 @@
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ChangeEvent,
+} from "react";
+
+import { DEFAULT_GEOFENCE_ENGINE_OPTIONS } from "./geofenceEngine";
+import type { Geofence, GeofenceState } from "./geofences";
+import {
+  abandonQuest,
+  buildQuestSummary,
+  completeQuestStep,
+  createQuestFromCheckpoints,
+  expireQuest,
+  getQuestDeadline,
+  getUnlockedSteps,
+  parseQuestFile,
+  revealQuestHint,
+  startQuest,
+  type Quest,
+  type QuestOutcome,
+  type QuestSession,
+  type QuestUnlockRule,
+} from "./quest";
+import type { AppStore } from "./storage/appStore";
+import {
+  getTelegramUserId,
+  hapticImpact,
+  hapticNotification,
+} from "./telegramCheckIn";
+
+/** Quest progress is stored per Telegram user; "local" outside Telegram. */
+export const QUEST_USER_KEY = String(getTelegramUserId() ?? "local");
+export const QUEST_OUTCOME_LABELS: Record<QuestOutcome, string> = {
+  completed: "Quest complete",
+  expired: "Time is up",
+  abandoned: "Quest abandoned",
+};
+
+type UseQuestOptions = {
+  geofences: Geofence[];
+  geofenceStates: Record<string, GeofenceState>;
+  modeRef: { readonly current: "gps" | "simulated" };
+  appStoreRef: { readonly current: AppStore | null };
+  setStatusMessage: (message: string) => void;
+};
+
+/**
+ * Quest session, setup choices and the rules that move it on: steps complete
+ * on entering, dwelling or checking in, and time limits expire it.
+ */
+export const useQuest = ({
+  geofences,
+  geofenceStates,
+  modeRef,
+  appStoreRef,
+  setStatusMessage,
+}: UseQuestOptions) => {
+  const questSessionRef = useRef<QuestSession | null>(null);
+  const geofencesRef = useRef(geofences);
+  /** Pending dwell completions by checkpoint id. */
+  const dwellTimersRef = useRef<Map<string, number>>(new Map());
+  const [questSession, setQuestSession] = useState<QuestSession | null>(null);
+  /** Quest file loaded by the user; otherwise one is built from checkpoints. */
+  const [loadedQuest, setLoadedQuest] = useState<Quest | null>(null);
+  const [questOrdered, setQuestOrdered] = useState(true);
+  const [questUnlock, setQuestUnlock] = useState<QuestUnlockRule>("enter");
+  const [questTimeLimit, setQuestTimeLimit] = useState(0);
+  const [questNow, setQuestNow] = useState(() => Date.now());
+
+  questSessionRef.current = questSession;
+  geofencesRef.current = geofences;
+
+  /** Every quest change is saved right away so progress survives reloads. */
+  const updateQuestSession = useCallback(
+    (next: QuestSession | null) => {
+      questSessionRef.current = next;
+      setQuestSession(next);
+      appStoreRef.current?.saveQuest(QUEST_USER_KEY, next).catch((error) => {
+        console.warn("Unable to save quest progress", error);
+      });
+    },
+    [appStoreRef]
+  );
+
+  /** Puts back a session loaded from storage without saving it again. */
+  const restoreQuestSession = useCallback((session: QuestSession) => {
+    questSessionRef.current = session;
+    setQuestSession(session);
+  }, []);
+
+  const completeQuestCheckpoint = useCallback(
+    (checkpointId: string, now = Date.now()) => {
+      const session = questSessionRef.current;
+      if (!session) {
+        return;
+      }
+
+      const progress = completeQuestStep(
+        session.quest,
+        session.progress,
+        checkpointId,
+        now
+      );
+      if (!progress) {
+        return;
+      }
+
+      updateQuestSession({ ...session, progress });
+      if (progress.outcome === "completed") {
+        hapticNotification("success");
+        setStatusMessage(`${QUEST_OUTCOME_LABELS.completed}!`);
+      } else {
+        hapticImpact("light");
+        const name =
+          geofencesRef.current.find((item) => item.id === checkpointId)?.name ??
+          checkpointId;
+        setStatusMessage(`Quest: reached ${name}`);
+      }
+    },
+    [updateQuestSession, setStatusMessage]
+  );
+
+  /** Only a check-in the player sends completes a "check-in" step. */
+  const completeQuestCheckIn = useCallback(
+    (checkpointId: string) => {
+      if (questSessionRef.current?.quest.unlock === "check-in") {
+        completeQuestCheckpoint(checkpointId);
+      }
+    },
+    [completeQuestCheckpoint]
+  );
+
+  // Both rules look at current state rather than enter and dwell events, so a
+  // step unlocking while the player already stands in it still counts: its
+  // dwell time starts when it unlocks. Simulator visits never count.
+  useEffect(() => {
+    if (
+      !questSession ||
+      questSession.quest.unlock !== "enter" ||
+      modeRef.current !== "gps"
+    ) {
+      return;
+    }
+
+    const reached = Object.values(geofenceStates)
+      .filter((state) => state.inside)
+      .map((state) => state.id);
+    const step = getUnlockedSteps(
+      questSession.quest,
+      questSession.progress
+    ).find((item) => reached.includes(item.checkpointId));
+    if (step) {
+      completeQuestCheckpoint(step.checkpointId);
+    }
+  }, [questSession, geofenceStates, modeRef, completeQuestCheckpoint]);
+
+  useEffect(() => {
+    const timers = dwellTimersRef.current;
+    const dwelling = new Set(
+      questSession?.quest.unlock === "dwell" && modeRef.current === "gps"
+        ? getUnlockedSteps(questSession.quest, questSession.progress)
+            .filter((step) => geofenceStates[step.checkpointId]?.inside)
+            .map((step) => step.checkpointId)
+        : []
+    );
+
+    timers.forEach((timerId, checkpointId) => {
+      if (!dwelling.has(checkpointId)) {
+        window.clearTimeout(timerId);
+        timers.delete(checkpointId);
+      }
+    });
+    dwelling.forEach((checkpointId) => {
+      if (timers.has(checkpointId)) {
+        return;
+      }
+
+      const timerId = window.setTimeout(() => {
+        timers.delete(checkpointId);
+        completeQuestCheckpoint(checkpointId);
+      }, DEFAULT_GEOFENCE_ENGINE_OPTIONS.dwellTime);
+      timers.set(checkpointId, timerId);
+    });
+  }, [questSession, geofenceStates, modeRef, completeQuestCheckpoint]);
+
+  useEffect(() => {
+    const timers = dwellTimersRef.current;
+    return () => {
+      timers.forEach((timerId) => {
+        window.clearTimeout(timerId);
+      });
+      timers.clear();
+    };
+  }, []);
+
+  const questDeadline = questSession
+    ? getQuestDeadline(questSession.quest, questSession.progress)
+    : null;
+
+  useEffect(() => {
+    if (questDeadline === null) {
+      return;
+    }
+
+    const tick = () => {
+      const now = Date.now();
+      setQuestNow(now);
+
+      const session = questSessionRef.current;
+      const progress =
+        session && expireQuest(session.quest, session.progress, now);
+      if (session && progress) {
+        updateQuestSession({ ...session, progress });
+        hapticNotification("error");
+        setStatusMessage(QUEST_OUTCOME_LABELS.expired);
+      }
+    };
+
+    tick();
+    const timerId = window.setInterval(tick, 1000);
+    return () => {
+      window.clearInterval(timerId);
+    };
+  }, [questDeadline, updateQuestSession, setStatusMessage]);
+
+  const questSummary = useMemo(
+    () =>
+      questSession
+        ? buildQuestSummary(
+            questSession.quest,
+            questSession.progress,
+            geofences,
+            questNow
+          )
+        : null,
+    [questSession, geofences, questNow]
+  );
+  const questUnlockedSteps = useMemo(
+    () =>
+      questSession
+        ? getUnlockedSteps(questSession.quest, questSession.progress)
+        : [],
+    [questSession]
+  );
+  const questHints = questUnlockedSteps.filter(
+    (step) =>
+      step.hint && questSession?.progress.hintsShown.includes(step.checkpointId)
+  );
+
+  const handleQuestFileChange = async (
+    event: ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+
+    try {
+      const quest = parseQuestFile(await file.text(), file.name, geofences);
+      setLoadedQuest(quest);
+      setStatusMessage(
+        `Loaded quest ${quest.name} (${quest.steps.length} steps)`
+      );
+    } catch (error) {
+      setStatusMessage(
+        error instanceof Error ? error.message : "Unable to read quest file."
+      );
+    }
+  };
+
+  const handleQuestStart = () => {
+    const quest =
+      loadedQuest ??
+      createQuestFromCheckpoints(geofences, {
+        ordered: questOrdered,
+        unlock: questUnlock,
+        timeLimitMinutes: questTimeLimit || undefined,
+      });
+
+    updateQuestSession({ quest, progress: startQuest(quest) });
+    setStatusMessage(`Quest started: ${quest.name}`);
+  };
+
+  const handleQuestHint = () => {
+    if (!questSession) {
+      return;
+    }
+
+    const progress = questUnlockedSteps
+      .filter((step) => step.hint)
+      .reduce(
+        (current, step) => revealQuestHint(current, step.checkpointId),
+        questSession.progress
+      );
+    updateQuestSession({ ...questSession, progress });
+  };
+
+  const handleQuestAbandon = () => {
+    if (questSession) {
+      updateQuestSession({
+        ...questSession,
+        progress: abandonQuest(questSession.progress),
+      });
+    }
+  };
+
+  const handleQuestDismiss = () => {
+    updateQuestSession(null);
+  };
+
+  return {
+    questSession,
+    loadedQuest,
+    setLoadedQuest,
+    questOrdered,
+    setQuestOrdered,
+    questUnlock,
+    setQuestUnlock,
+    questTimeLimit,
+    setQuestTimeLimit,
+    questNow,
+    questDeadline,
+    questSummary,
+    questUnlockedSteps,
+    questHints,
+    restoreQuestSession,
+    completeQuestCheckIn,
+    handleQuestFileChange,
+    handleQuestStart,
+    handleQuestHint,
+    handleQuestAbandon,
+    handleQuestDismiss,
+  };
+};
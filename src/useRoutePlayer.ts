@@ -0,0 +1,138 @@
+import { useEffect, useState, type ChangeEvent } from "react";
+import L from "leaflet";
+
+import { formatDistance } from "./navigation";
+import { createRoute, parseRouteFile, type Route } from "./route";
+import {
+  createRoutePlayer,
+  type RoutePlayerFix,
+  type RoutePlayerState,
+} from "./routePlayer";
+
+export const ROUTE_SPEED_OPTIONS = [
+  { label: "Walk (5 km/h)", value: 1.4 },
+  { label: "Run (10 km/h)", value: 2.8 },
+  { label: "Bike (20 km/h)", value: 5.6 },
+  { label: "Car (50 km/h)", value: 13.9 },
+  { label: "Fast (200 km/h)", value: 55.6 },
+];
+export const ROUTE_NOISE_OPTIONS = [0, 5, 15, 40];
+
+type UseRoutePlayerOptions = {
+  /** Accuracy reported for route fixes before noise is added. */
+  accuracy: number;
+  mapRef: { readonly current: L.Map | null };
+  modeRef: { readonly current: "gps" | "simulated" };
+  /** Receives each playback fix while the simulator is on. */
+  onFix: (fix: RoutePlayerFix) => void;
+  setStatusMessage: (message: string) => void;
+};
+
+/**
+ * The simulator route: loaded from a file or drawn by tapping the map, shown
+ * as a dashed line and played back through `onFix`.
+ */
+export const useRoutePlayer = ({
+  accuracy,
+  mapRef,
+  modeRef,
+  onFix,
+  setStatusMessage,
+}: UseRoutePlayerOptions) => {
+  const [routePlayer] = useState(() => createRoutePlayer(accuracy));
+  const [route, setRoute] = useState<Route | null>(null);
+  const [routePlayerState, setRoutePlayerState] = useState<RoutePlayerState>(
+    () => routePlayer.getState()
+  );
+  const [drawingRoute, setDrawingRoute] = useState(false);
+
+  useEffect(() => {
+    const unsubscribe = routePlayer.subscribe(({ state, fix }) => {
+      setRoutePlayerState(state);
+
+      if (fix && modeRef.current === "simulated") {
+        onFix(fix);
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      routePlayer.pause();
+    };
+  }, [routePlayer, modeRef, onFix]);
+
+  useEffect(() => {
+    routePlayer.setRoute(route);
+
+    const map = mapRef.current;
+    if (!map || !route) {
+      return;
+    }
+
+    const polyline = L.polyline(
+      route.points.map((point) => L.latLng(point.lat, point.lng)),
+      { color: "#16a34a", weight: 3, opacity: 0.8, dashArray: "4 8" }
+    ).addTo(map);
+
+    return () => {
+      polyline.remove();
+    };
+  }, [routePlayer, route, mapRef]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !drawingRoute) {
+      return;
+    }
+
+    const handleClick = (event: L.LeafletMouseEvent) => {
+      const { lat, lng } = event.latlng;
+      setRoute((current) =>
+        createRoute("Drawn route", [...(current?.points ?? []), { lat, lng }])
+      );
+    };
+
+    map.on("click", handleClick);
+    return () => {
+      map.off("click", handleClick);
+    };
+  }, [drawingRoute, mapRef]);
+
+  const handleRouteFileChange = async (
+    event: ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+
+    try {
+      const loaded = parseRouteFile(await file.text(), file.name);
+      setDrawingRoute(false);
+      setRoute(loaded);
+      setStatusMessage(
+        `Loaded route ${loaded.name} (${formatDistance(loaded.totalDistance)})`
+      );
+    } catch (error) {
+      setStatusMessage(
+        error instanceof Error ? error.message : "Unable to read route file."
+      );
+    }
+  };
+
+  const handleRouteClear = () => {
+    setDrawingRoute(false);
+    setRoute(null);
+  };
+
+  return {
+    routePlayer,
+    route,
+    routePlayerState,
+    drawingRoute,
+    setDrawingRoute,
+    handleRouteFileChange,
+    handleRouteClear,
+  };
+};
@@ -0,0 +1,134 @@
+import { useEffect, useMemo, useRef, useState, type ChangeEvent } from "react";
+import type L from "leaflet";
+
+import {
+  AVERAGE_TILE_BYTES,
+  clearTileCache,
+  countTilesInBounds,
+  getTileCacheStats,
+  getTileUrlsInBounds,
+  isTileCacheSupported,
+  prefetchTiles,
+  setTileCacheQuota,
+  type TileCacheStats,
+  type TileDownloadProgress,
+} from "./tileCache";
+import type { TileSource } from "./tileSources";
+
+export const TILE_CACHE_MAX_ZOOM_OPTIONS = [16, 17, 18];
+export const TILE_CACHE_QUOTA_OPTIONS_MB = [50, 100, 250, 500];
+export const MEGABYTE = 1024 * 1024;
+
+type UseTileDownloadOptions = {
+  mapView: { bounds: L.LatLngBounds; zoom: number } | null;
+  /** Base layer whose tiles are downloaded. */
+  baseSource: TileSource | undefined;
+  setStatusMessage: (message: string) => void;
+};
+
+/**
+ * Offline tile cache: its size and quota, and downloading the visible area
+ * from the current zoom up to a chosen one.
+ */
+export const useTileDownload = ({
+  mapView,
+  baseSource,
+  setStatusMessage,
+}: UseTileDownloadOptions) => {
+  const tileDownloadAbortRef = useRef<AbortController | null>(null);
+  const [tileCacheStats, setTileCacheStats] = useState<TileCacheStats | null>(
+    null
+  );
+  const [tileDownload, setTileDownload] = useState<TileDownloadProgress | null>(
+    null
+  );
+  const [tileCacheMaxZoom, setTileCacheMaxZoom] = useState(17);
+
+  useEffect(() => {
+    if (!isTileCacheSupported()) {
+      return;
+    }
+
+    let cancelled = false;
+    getTileCacheStats()
+      .then((stats) => {
+        if (!cancelled) {
+          setTileCacheStats(stats);
+        }
+      })
+      .catch(() => undefined);
+
+    return () => {
+      cancelled = true;
+      tileDownloadAbortRef.current?.abort();
+    };
+  }, []);
+
+  const tileDownloadCount = useMemo(() => {
+    if (!mapView || tileCacheMaxZoom < mapView.zoom) {
+      return 0;
+    }
+
+    return countTilesInBounds(mapView.bounds, mapView.zoom, tileCacheMaxZoom);
+  }, [mapView, tileCacheMaxZoom]);
+  const tileDownloadBytes = tileDownloadCount * AVERAGE_TILE_BYTES;
+
+  const handleTileDownload = async () => {
+    if (tileDownload && tileDownload.done < tileDownload.total) {
+      tileDownloadAbortRef.current?.abort();
+      return;
+    }
+
+    if (!mapView || !baseSource) {
+      return;
+    }
+
+    const urls = getTileUrlsInBounds(
+      baseSource.url,
+      mapView.bounds,
+      mapView.zoom,
+      tileCacheMaxZoom,
+      baseSource.subdomains
+    );
+    const controller = new AbortController();
+    tileDownloadAbortRef.current = controller;
+    setTileDownload({ done: 0, failed: 0, total: urls.length });
+
+    const result = await prefetchTiles(
+      urls,
+      setTileDownload,
+      controller.signal
+    );
+    tileDownloadAbortRef.current = null;
+    setTileDownload(null);
+    setStatusMessage(
+      controller.signal.aborted
+        ? `Area download stopped after ${result.done} tiles`
+        : `Downloaded ${result.done - result.failed} of ${result.total} tiles`
+    );
+    setTileCacheStats(await getTileCacheStats().catch(() => null));
+  };
+
+  const handleTileQuotaChange = async (
+    event: ChangeEvent<HTMLSelectElement>
+  ) => {
+    const quotaBytes = Number(event.target.value) * MEGABYTE;
+    setTileCacheStats(await setTileCacheQuota(quotaBytes).catch(() => null));
+  };
+
+  const handleTileCacheClear = async () => {
+    setTileCacheStats(await clearTileCache().catch(() => null));
+  };
+
+  return {
+    tileCacheStats,
+    tileDownload,
+    tileCacheMaxZoom,
+    setTileCacheMaxZoom,
+    tileDownloadCount,
+    tileDownloadBytes,
+    handleTileDownload,
+    handleTileQuotaChange,
+    handleTileCacheClear,
+  };
+};
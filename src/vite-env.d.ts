@@ -1 +1,21 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Comma-separated location provider fallback order, e.g. "telegram,navigator". */
+  readonly VITE_LOCATION_PROVIDERS?: string;
+  /** JSON array of extra or overriding tile sources. */
+  readonly VITE_TILE_SOURCES?: string;
+  /** Id of the base layer used until the user picks one. */
+  readonly VITE_DEFAULT_TILE_SOURCE?: string;
+  readonly VITE_SELF_HOSTED_TILE_URL?: string;
+  readonly VITE_SELF_HOSTED_TILE_NAME?: string;
+  readonly VITE_SELF_HOSTED_TILE_ATTRIBUTION?: string;
+  /** Mini App link such as https://t.me/<bot>/<app>, used for shared links. */
+  readonly VITE_TELEGRAM_APP_URL?: string;
+  /** WebSocket relay for live position sharing, e.g. wss://relay.example.com. */
+  readonly VITE_SHARING_RELAY_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
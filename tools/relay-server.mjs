@@ -0,0 +1,246 @@
+#!/usr/bin/env node
+// Tiny WebSocket relay for live position sharing during development and
+// tests. Dependency-free: it speaks just enough RFC 6455 for browsers
+// (unfragmented or fragmented text frames, ping, close).
+//
+// Usage:
+//   node tools/relay-server.mjs [--port 8787]
+//
+// Clients send {type:"join",room,peer:{id,name}}, {type:"position",position}
+// and {type:"leave"}. The relay answers a join with the room's last known
+// positions ({type:"peers"}) and forwards positions and leaves to the rest
+// of the room. Nothing is stored on disk.
+
+import { createHash } from "node:crypto";
+import { createServer } from "node:http";
+
+const WEBSOCKET_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+const MAX_MESSAGE_BYTES = 4096;
+const MAX_NAME_LENGTH = 64;
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+const portFlag = process.argv.indexOf("--port");
+const port = Number(
+  (portFlag >= 0 && process.argv[portFlag + 1]) ||
+    process.env.RELAY_PORT ||
+    8787
+);
+
+/** room name -> Map<client, { peer, position }> */
+const rooms = new Map();
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  const header =
+    length < 126
+      ? Buffer.from([0x80 | opcode, length])
+      : length < 65536
+      ? Buffer.from([0x80 | opcode, 126, length >> 8, length & 0xff])
+      : Buffer.concat([
+          Buffer.from([0x80 | opcode, 127]),
+          (() => {
+            const extended = Buffer.alloc(8);
+            extended.writeBigUInt64BE(BigInt(length));
+            return extended;
+          })(),
+        ]);
+  return Buffer.concat([header, payload]);
+};
+
+const sendJson = (client, message) => {
+  if (!client.socket.destroyed) {
+    client.socket.write(
+      encodeFrame(OPCODE_TEXT, Buffer.from(JSON.stringify(message)))
+    );
+  }
+};
+
+const broadcast = (room, sender, message) => {
+  rooms.get(room)?.forEach((_entry, client) => {
+    if (client !== sender) {
+      sendJson(client, message);
+    }
+  });
+};
+
+const leaveRoom = (client) => {
+  const { room } = client;
+  const members = room && rooms.get(room);
+  if (!members) {
+    return;
+  }
+
+  const entry = members.get(client);
+  members.delete(client);
+  if (members.size === 0) {
+    rooms.delete(room);
+  }
+  client.room = null;
+  if (entry) {
+    broadcast(room, client, { type: "leave", peerId: entry.peer.id });
+  }
+};
+
+const isFiniteNumber = (value) =>
+  typeof value === "number" && Number.isFinite(value);
+
+const handleMessage = (client, text) => {
+  let message;
+  try {
+    message = JSON.parse(text);
+  } catch (error) {
+    return;
+  }
+
+  switch (message?.type) {
+    case "join": {
+      const { room, peer } = message;
+      if (
+        typeof room !== "string" ||
+        !room ||
+        room.length > MAX_NAME_LENGTH ||
+        typeof peer?.id !== "string" ||
+        typeof peer?.name !== "string"
+      ) {
+        return;
+      }
+
+      leaveRoom(client);
+      const members = rooms.get(room) ?? new Map();
+      rooms.set(room, members);
+      client.room = room;
+      members.set(client, {
+        peer: {
+          id: peer.id.slice(0, MAX_NAME_LENGTH),
+          name: peer.name.slice(0, MAX_NAME_LENGTH),
+        },
+        position: null,
+      });
+      sendJson(client, {
+        type: "peers",
+        peers: [...members.values()]
+          .filter((entry) => entry.position)
+          .map(({ peer: member, position }) => ({ ...member, position })),
+      });
+      console.log(
+        `${members.get(client).peer.name} joined ${room} (${
+          members.size
+        } in room)`
+      );
+      return;
+    }
+    case "position": {
+      const entry = client.room && rooms.get(client.room)?.get(client);
+      const { lat, lng, accuracy, timestamp } = message.position ?? {};
+      if (!entry || ![lat, lng, accuracy, timestamp].every(isFiniteNumber)) {
+        return;
+      }
+
+      entry.position = { lat, lng, accuracy, timestamp };
+      broadcast(client.room, client, {
+        type: "position",
+        peer: entry.peer,
+        position: entry.position,
+      });
+      return;
+    }
+    case "leave":
+      leaveRoom(client);
+      return;
+  }
+};
+
+/** Parses as many complete frames as the buffer holds. */
+const readFrames = (client) => {
+  while (client.buffer.length >= 2) {
+    const [first, second] = client.buffer;
+    const fin = (first & 0x80) !== 0;
+    const opcode = first & 0x0f;
+    const masked = (second & 0x80) !== 0;
+    let length = second & 0x7f;
+    let offset = 2;
+
+    if (length === 126) {
+      if (client.buffer.length < 4) return;
+      length = client.buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (client.buffer.length < 10) return;
+      length = Number(client.buffer.readBigUInt64BE(2));
+      offset = 10;
+    }
+
+    if (!masked || length > MAX_MESSAGE_BYTES) {
+      // Clients must mask; oversized messages are not ours.
+      client.socket.destroy();
+      return;
+    }
+    if (client.buffer.length < offset + 4 + length) {
+      return;
+    }
+
+    const mask = client.buffer.subarray(offset, offset + 4);
+    const payload = Buffer.from(
+      client.buffer.subarray(offset + 4, offset + 4 + length)
+    );
+    for (let index = 0; index < payload.length; index += 1) {
+      payload[index] ^= mask[index % 4];
+    }
+    client.buffer = client.buffer.subarray(offset + 4 + length);
+
+    if (opcode === OPCODE_TEXT || opcode === OPCODE_CONTINUATION) {
+      client.fragments.push(payload);
+      if (fin) {
+        const text = Buffer.concat(client.fragments).toString("utf8");
+        client.fragments = [];
+        handleMessage(client, text);
+      }
+    } else if (opcode === OPCODE_PING) {
+      client.socket.write(encodeFrame(OPCODE_PONG, payload));
+    } else if (opcode === OPCODE_CLOSE) {
+      client.socket.end(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0)));
+      return;
+    }
+  }
+};
+
+const server = createServer((_request, response) => {
+  response.writeHead(426, { "Content-Type": "text/plain" });
+  response.end("This is a WebSocket relay.\n");
+});
+
+server.on("upgrade", (request, socket) => {
+  const key = request.headers["sec-websocket-key"];
+  if (request.headers.upgrade?.toLowerCase() !== "websocket" || !key) {
+    socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+    return;
+  }
+
+  const accept = createHash("sha1")
+    .update(key + WEBSOCKET_GUID)
+    .digest("base64");
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\n" +
+      "Upgrade: websocket\r\n" +
+      "Connection: Upgrade\r\n" +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  const client = { socket, room: null, buffer: Buffer.alloc(0), fragments: [] };
+  socket.setNoDelay(true);
+  socket.on("data", (chunk) => {
+    client.buffer = Buffer.concat([client.buffer, chunk]);
+    readFrames(client);
+  });
+  socket.on("close", () => leaveRoom(client));
+  socket.on("error", () => socket.destroy());
+});
+
+server.listen(port, () => {
+  console.log(`Relay listening on ws://localhost:${port}`);
+});
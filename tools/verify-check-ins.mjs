@@ -0,0 +1,283 @@
+#!/usr/bin/env node
+// Reference verifier for check-in payloads (version 2) as a bot receives
+// them from WebApp.sendData. It checks the Telegram initData signature and
+// recomputes the anti-spoofing signals from the fix trail instead of
+// trusting the client.
+//
+// Usage:
+//   BOT_TOKEN=123:abc node tools/verify-check-ins.mjs session.jsonl [--max-age-hours 24]
+//
+// The input holds one entry per line, a JSON array, or a single entry. An
+// entry is either `{ "receivedAt": <ms>, "payload": {...} }`, with the time
+// the bot received the message, or a bare payload, which is checked against
+// the verifier's clock. The payload's own `sentAt` is never trusted for age.
+// Exits with 1 when any check-in is rejected.
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { readFileSync } from "node:fs";
+
+// Keep in sync with src/checkInSignals.ts.
+const IMPOSSIBLE_SPEED = 85;
+const SUSPICIOUS_ACCURACY = 2;
+const CONSTANT_ACCURACY_RUN = 4;
+const SIMULATED_SOURCES = new Set(["simulated", "scripted"]);
+const EARTH_RADIUS_METERS = 6_371_000;
+/** Slack between the check-in position and the last raw fix (smoothing). */
+const TRAIL_DISTANCE_SLACK = 50;
+const CLOCK_SKEW = 60 * 1000;
+
+/** Flags that reject a check-in outright; others only ask for review. */
+const REJECTING_FLAGS = new Set([
+  "bad_signature",
+  "unsigned",
+  "simulated_source",
+  "impossible_speed",
+  "signals_mismatch",
+  "position_off_trail",
+  "stale_init_data",
+  "malformed_user",
+  "no_position",
+]);
+
+const toRadians = (value) => (value * Math.PI) / 180;
+
+const getDistanceInMeters = (lat1, lng1, lat2, lng2) => {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) *
+      Math.cos(toRadians(lat2)) *
+      Math.sin(dLng / 2) ** 2;
+  return EARTH_RADIUS_METERS * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+const parseArgs = (argv) => {
+  const options = { file: null, maxAgeHours: 24 };
+  for (let index = 0; index < argv.length; index += 1) {
+    if (argv[index] === "--max-age-hours") {
+      options.maxAgeHours = Number(argv[(index += 1)]);
+      if (!Number.isFinite(options.maxAgeHours) || options.maxAgeHours <= 0) {
+        options.maxAgeHours = null;
+      }
+    } else {
+      options.file = argv[index];
+    }
+  }
+  return options;
+};
+
+const readPayloads = (text) => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith("[")) {
+    return JSON.parse(trimmed);
+  }
+  // A line that is not JSON is reported as skipped, not fatal.
+  return trimmed
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => {
+      try {
+        return JSON.parse(line);
+      } catch (error) {
+        return null;
+      }
+    });
+};
+
+/** https://core.telegram.org/bots/webapps#validating-data-received-via-the-mini-app */
+const verifyInitData = (initData, botToken) => {
+  const params = new URLSearchParams(initData);
+  const hash = params.get("hash");
+  if (!hash) {
+    return { valid: false };
+  }
+
+  params.delete("hash");
+  const dataCheckString = [...params.entries()]
+    .map(([key, value]) => `${key}=${value}`)
+    .sort()
+    .join("\n");
+  const secret = createHmac("sha256", "WebAppData").update(botToken).digest();
+  const expected = createHmac("sha256", secret)
+    .update(dataCheckString)
+    .digest();
+  const received = Buffer.from(hash, "hex");
+  if (
+    received.length !== expected.length ||
+    !timingSafeEqual(received, expected)
+  ) {
+    return { valid: false };
+  }
+
+  // Only parsed once signed, and even then it may not be JSON.
+  const user = params.get("user");
+  let userId = null;
+  let malformedUser = false;
+  if (user) {
+    try {
+      userId = JSON.parse(user)?.id ?? null;
+    } catch (error) {
+      malformedUser = true;
+    }
+  }
+
+  return {
+    valid: true,
+    authDate: Number(params.get("auth_date")) * 1000,
+    userId,
+    malformedUser,
+  };
+};
+
+const recomputeFlags = (trail, signals) => {
+  const latest = trail[trail.length - 1];
+  const source = latest?.source ?? "unknown";
+  let maxSpeed = 0;
+  let run = 1;
+  let constantAccuracy = false;
+
+  for (let index = 1; index < trail.length; index += 1) {
+    const previous = trail[index - 1];
+    const current = trail[index];
+    const seconds = (current.timestamp - previous.timestamp) / 1000;
+    if (seconds > 0) {
+      maxSpeed = Math.max(
+        maxSpeed,
+        getDistanceInMeters(
+          previous.lat,
+          previous.lng,
+          current.lat,
+          current.lng
+        ) / seconds
+      );
+    }
+    run = current.accuracy === previous.accuracy ? run + 1 : 1;
+    constantAccuracy ||= run >= CONSTANT_ACCURACY_RUN;
+  }
+
+  return [
+    SIMULATED_SOURCES.has(source) && "simulated_source",
+    source === "unknown" && "unknown_source",
+    maxSpeed > IMPOSSIBLE_SPEED && "impossible_speed",
+    ((latest && latest.accuracy < SUSPICIOUS_ACCURACY) || constantAccuracy) &&
+      "suspicious_accuracy",
+    signals?.sinceLastRealFix === null && "no_real_fix",
+  ].filter(Boolean);
+};
+
+const verifyCheckIn = (payload, receivedAt, botToken, maxAgeMs) => {
+  const flags = new Set();
+  let userId = null;
+
+  if (!payload.initData) {
+    flags.add("unsigned");
+  } else {
+    const result = verifyInitData(payload.initData, botToken);
+    userId = result.userId;
+    if (!result.valid) {
+      flags.add("bad_signature");
+    } else if (result.malformedUser) {
+      flags.add("malformed_user");
+    } else if (
+      receivedAt < result.authDate - CLOCK_SKEW ||
+      receivedAt - result.authDate > maxAgeMs
+    ) {
+      flags.add("stale_init_data");
+    }
+  }
+
+  const trail = Array.isArray(payload.trail)
+    ? payload.trail.filter((fix) => fix && typeof fix === "object")
+    : [];
+  const recomputed = recomputeFlags(trail, payload.signals);
+  recomputed.forEach((flag) => flags.add(flag));
+
+  const claimed = new Set(payload.signals?.flags ?? []);
+  if (recomputed.some((flag) => !claimed.has(flag))) {
+    flags.add("signals_mismatch");
+  }
+  if (payload.simulated) {
+    flags.add("simulated_source");
+  }
+
+  const position = payload.position;
+  const last = trail[trail.length - 1];
+  if (!Number.isFinite(position?.lat) || !Number.isFinite(position?.lng)) {
+    flags.add("no_position");
+  } else if (!last) {
+    flags.add("no_trail");
+  } else {
+    const offset = getDistanceInMeters(
+      position.lat,
+      position.lng,
+      last.lat,
+      last.lng
+    );
+    if (offset > last.accuracy + TRAIL_DISTANCE_SLACK) {
+      flags.add("position_off_trail");
+    }
+    if (last.timestamp > receivedAt + CLOCK_SKEW) {
+      flags.add("trail_from_future");
+    }
+  }
+
+  const verdict = [...flags].some((flag) => REJECTING_FLAGS.has(flag))
+    ? "reject"
+    : flags.size > 0
+    ? "review"
+    : "accept";
+  return { verdict, userId, flags: [...flags] };
+};
+
+const main = () => {
+  const { file, maxAgeHours } = parseArgs(process.argv.slice(2));
+  const botToken = process.env.BOT_TOKEN;
+  if (!file || !botToken || maxAgeHours === null) {
+    console.error(
+      "Usage: BOT_TOKEN=<token> node tools/verify-check-ins.mjs <file> [--max-age-hours 24]"
+    );
+    if (maxAgeHours === null) {
+      console.error("--max-age-hours must be a positive number");
+    }
+    process.exit(2);
+  }
+
+  const entries = readPayloads(readFileSync(file, "utf8"));
+  const verifiedAt = Date.now();
+  let rejected = 0;
+
+  entries.forEach((entry, index) => {
+    const logged = entry?.payload !== undefined;
+    const payload = logged ? entry.payload : entry;
+    const receivedAt =
+      logged && Number.isFinite(entry.receivedAt)
+        ? entry.receivedAt
+        : verifiedAt;
+
+    if (payload?.type !== "check_in" || payload.version !== 2) {
+      console.log(`#${index + 1} skipped: not a version 2 check-in`);
+      return;
+    }
+
+    const { verdict, userId, flags } = verifyCheckIn(
+      payload,
+      receivedAt,
+      botToken,
+      maxAgeHours * 60 * 60 * 1000
+    );
+    if (verdict === "reject") {
+      rejected += 1;
+    }
+    console.log(
+      `#${index + 1} ${verdict.toUpperCase()} ${payload.checkpoint?.name} ` +
+        `user=${userId ?? "?"} received ${new Date(receivedAt).toISOString()}` +
+        (flags.length > 0 ? ` [${flags.join(", ")}]` : "")
+    );
+  });
+
+  console.log(`${entries.length} check-in(s), ${rejected} rejected`);
+  process.exit(rejected > 0 ? 1 : 0);
+};
+
+main();